@@ -0,0 +1,61 @@
+import { TerrainGenerator } from '../src/utils/noise';
+import { CHUNK_SIZE } from '../src/utils/chunks';
+
+/**
+ * Terrain generation benchmark, run with `npm run bench:terrain`. Generates chunk stacks
+ * the way the world loads them, then times the block queries collision and lighting make
+ * around loaded chunks. Compare runs before and after a generator change on the same machine.
+ */
+
+// A 12x12 chunk area, 6 chunks deep, on a cold generator
+const AREA_RADIUS = 6;
+const MIN_CHUNK_Y = -4;
+const MAX_CHUNK_Y = 1;
+
+// Mixed getBlockType and getHeight queries over a 3x3 chunk area that has been generated
+const QUERY_CHUNKS = 3;
+const QUERY_COUNT = 200000;
+
+const benchmarkGeneration = () => {
+  const generator = new TerrainGenerator('bench');
+  let chunkCount = 0;
+
+  const start = performance.now();
+  for (let chunkX = -AREA_RADIUS; chunkX < AREA_RADIUS; chunkX++) {
+    for (let chunkZ = -AREA_RADIUS; chunkZ < AREA_RADIUS; chunkZ++) {
+      for (let chunkY = MIN_CHUNK_Y; chunkY <= MAX_CHUNK_Y; chunkY++) {
+        generator.generateChunk(chunkX, chunkY, chunkZ, CHUNK_SIZE);
+        chunkCount++;
+      }
+    }
+  }
+  const elapsed = performance.now() - start;
+
+  console.log(`[BENCH] Generated ${chunkCount} chunks: ${(elapsed / chunkCount).toFixed(2)} ms/chunk`);
+};
+
+const benchmarkQueries = () => {
+  const generator = new TerrainGenerator('bench-queries');
+  for (let chunkX = 0; chunkX < QUERY_CHUNKS; chunkX++) {
+    for (let chunkZ = 0; chunkZ < QUERY_CHUNKS; chunkZ++) {
+      generator.generateChunk(chunkX, 0, chunkZ, CHUNK_SIZE);
+    }
+  }
+
+  const size = QUERY_CHUNKS * CHUNK_SIZE;
+  let solidCount = 0;
+
+  const start = performance.now();
+  for (let i = 0; i < QUERY_COUNT; i++) {
+    const x = (i * 7) % size;
+    const z = (i * 13) % size;
+    if (generator.getBlockType(x, i % 30, z)) solidCount++;
+    generator.getHeight(x, z);
+  }
+  const elapsed = performance.now() - start;
+
+  console.log(`[BENCH] ${QUERY_COUNT} block queries (${solidCount} solid): ${((elapsed / QUERY_COUNT) * 1000).toFixed(2)} us/query`);
+};
+
+benchmarkGeneration();
+benchmarkQueries();
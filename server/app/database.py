@@ -1,4 +1,4 @@
-from sqlalchemy import create_engine
+from sqlalchemy import create_engine, inspect, text
 from sqlalchemy.ext.declarative import declarative_base
 from sqlalchemy.orm import sessionmaker
 
@@ -18,4 +18,18 @@ def get_db():
     try:
         yield db
     finally:
-        db.close() 
\ No newline at end of file
+        db.close() 
+# Add columns introduced after a database was first created, create_all only makes new tables
+def migrate_database():
+    with engine.begin() as connection:
+        world_columns = {column["name"] for column in inspect(connection).get_columns("worlds")}
+        if "world_type" not in world_columns:
+            connection.execute(text("ALTER TABLE worlds ADD COLUMN world_type VARCHAR NOT NULL DEFAULT 'default'"))
+        if "world_options" not in world_columns:
+            connection.execute(text("ALTER TABLE worlds ADD COLUMN world_options JSON NOT NULL DEFAULT '\"{}\"'"))
+        if "generator_version" not in world_columns:
+            connection.execute(text("ALTER TABLE worlds ADD COLUMN generator_version INTEGER NOT NULL DEFAULT 1"))
+        if "world_limits" not in world_columns:
+            connection.execute(text("ALTER TABLE worlds ADD COLUMN world_limits JSON"))
+        if "player" not in world_columns:
+            connection.execute(text("ALTER TABLE worlds ADD COLUMN player JSON"))
@@ -2,10 +2,11 @@ from fastapi import FastAPI
 from fastapi.middleware.cors import CORSMiddleware
 
 from .routers import world
-from .database import engine, Base
+from .database import engine, Base, migrate_database
 
 # Create database tables
 Base.metadata.create_all(bind=engine)
+migrate_database()
 
 app = FastAPI(title="MyCraft Game Server")
 
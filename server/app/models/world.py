@@ -7,6 +7,15 @@ class World(Base):
 
     id = Column(Integer, primary_key=True, index=True)
     seed = Column(String, nullable=False)
+    # Generator the world was created with, and its parameters
+    world_type = Column(String, nullable=False, default="default")
+    world_options = Column(JSON, nullable=False, default=dict)
+    # Height range and border, null for worlds created before limits were stored
+    world_limits = Column(JSON, nullable=True)
+    # Revision of the client's terrain generator, kept so the world generates the same way forever
+    generator_version = Column(Integer, nullable=False, default=1)
+    # The player's inventory and selected hotbar slot, null until the player is first saved
+    player = Column(JSON, nullable=True)
     # Store block changes as a JSON array
     changes = Column(JSON, nullable=False, default=list)
     last_updated = Column(TIMESTAMP, nullable=False) 
\ No newline at end of file
@@ -17,9 +17,13 @@ get_db = database.get_db
 
 @router.post("/", response_model=schemas.World)
 def create_world(world_data: schemas.WorldCreate, db: Session = Depends(get_db)):
-    """Create a new world with a seed for terrain generation"""
+    """Create a new world with a seed and world type for terrain generation"""
     new_world = World(
         seed=world_data.seed,
+        world_type=world_data.world_type,
+        world_options=json.dumps(world_data.world_options),
+        world_limits=json.dumps(world_data.world_limits) if world_data.world_limits is not None else None,
+        generator_version=world_data.generator_version,
         changes=json.dumps([]),
         last_updated=datetime.now()
     )
@@ -30,6 +34,9 @@ def create_world(world_data: schemas.WorldCreate, db: Session = Depends(get_db))
     # Parse the JSON string into a list before returning
     world_dict = new_world.__dict__.copy()
     world_dict["changes"] = json.loads(world_dict["changes"]) if world_dict["changes"] else []
+    world_dict["world_options"] = json.loads(world_dict["world_options"]) if world_dict["world_options"] else {}
+    world_dict["world_limits"] = json.loads(world_dict["world_limits"]) if world_dict["world_limits"] else None
+    world_dict["player"] = json.loads(world_dict["player"]) if world_dict["player"] else None
     return world_dict
 
 @router.get("/{world_id}", response_model=schemas.World)
@@ -42,6 +49,9 @@ def get_world(world_id: int, db: Session = Depends(get_db)):
     # Parse the JSON string into a list before returning
     world_dict = db_world.__dict__.copy()
     world_dict["changes"] = json.loads(world_dict["changes"]) if world_dict["changes"] else []
+    world_dict["world_options"] = json.loads(world_dict["world_options"]) if world_dict["world_options"] else {}
+    world_dict["world_limits"] = json.loads(world_dict["world_limits"]) if world_dict["world_limits"] else None
+    world_dict["player"] = json.loads(world_dict["player"]) if world_dict["player"] else None
     return world_dict
 
 @router.put("/{world_id}/changes", response_model=schemas.World)
@@ -68,4 +78,28 @@ def update_world_changes(world_id: int, changes: schemas.WorldUpdate, db: Sessio
     # Parse the JSON string into a list before returning
     world_dict = db_world.__dict__.copy()
     world_dict["changes"] = json.loads(world_dict["changes"]) if world_dict["changes"] else []
-    return world_dict 
\ No newline at end of file
+    world_dict["world_options"] = json.loads(world_dict["world_options"]) if world_dict["world_options"] else {}
+    world_dict["world_limits"] = json.loads(world_dict["world_limits"]) if world_dict["world_limits"] else None
+    world_dict["player"] = json.loads(world_dict["player"]) if world_dict["player"] else None
+    return world_dict
+
+@router.put("/{world_id}/player", response_model=schemas.World)
+def update_player(world_id: int, player: schemas.PlayerData, db: Session = Depends(get_db)):
+    """Replace the saved state of the world's player"""
+    db_world = db.query(World).filter(World.id == world_id).first()
+    if db_world is None:
+        raise HTTPException(status_code=404, detail="World not found")
+    
+    db_world.player = json.dumps(player.dict())
+    db_world.last_updated = datetime.now()
+    
+    db.commit()
+    db.refresh(db_world)
+    
+    # Parse the JSON strings before returning
+    world_dict = db_world.__dict__.copy()
+    world_dict["changes"] = json.loads(world_dict["changes"]) if world_dict["changes"] else []
+    world_dict["world_options"] = json.loads(world_dict["world_options"]) if world_dict["world_options"] else {}
+    world_dict["world_limits"] = json.loads(world_dict["world_limits"]) if world_dict["world_limits"] else None
+    world_dict["player"] = json.loads(world_dict["player"]) if world_dict["player"] else None
+    return world_dict
\ No newline at end of file
@@ -1,5 +1,5 @@
 from pydantic import BaseModel
-from typing import List, Dict, Any, Optional
+from typing import List, Dict, Any, Literal, Optional
 from datetime import datetime
 
 # Schema for a block change (position and block type)
@@ -10,14 +10,40 @@ class BlockChange(BaseModel):
     type: str  # Block type (e.g., "dirt", "stone", etc.)
     action: str  # "place" or "remove"
 
+# Schema for a stack of items in one inventory slot
+class ItemStack(BaseModel):
+    type: str
+    count: int
+    # Uses left, only for items that wear out
+    durability: Optional[int] = None
+
+# Schema for the player's saved state
+# Rules the player plays by
+GameMode = Literal["survival", "creative", "spectator"]
+
+class PlayerData(BaseModel):
+    inventory: List[Optional[ItemStack]] = []
+    selected_slot: int = 0
+    game_mode: GameMode = "survival"
+    health: float = 20
+
+# Generators a world can be created with
+WorldType = Literal["default", "superflat", "amplified", "island", "void"]
+
 # Schema for creating a world
 class WorldCreate(BaseModel):
     seed: str
+    world_type: WorldType = "default"
+    world_options: Dict[str, Any] = {}
+    world_limits: Optional[Dict[str, Any]] = None
+    # Worlds created before generator versions existed use the first one
+    generator_version: int = 1
     
 # Schema for a world in the database
 class World(WorldCreate):
     id: int
     changes: List[Dict[str, Any]] = []
+    player: Optional[PlayerData] = None
     last_updated: datetime
     
     class Config:
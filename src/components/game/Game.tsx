@@ -1,15 +1,29 @@
-import { useState, useEffect, useRef, Suspense } from 'react';
+import { useState, useEffect, useRef, useCallback, Suspense } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { Sky } from '@react-three/drei';
-import { createWorld, getWorld } from '../../utils/api';
-import { BlockType, PlayerState, WorldData } from '../../utils/types';
-import { preloadTextures } from '../../utils/textures';
+import { createWorld, getWorld, updatePlayer } from '../../utils/api';
+import { BlockType, PlayerData, PlayerState, WorldData } from '../../utils/types';
+import { HOTBAR_SIZE, Inventory, addItem, createInventory, damageItem, getBlockDrop, loadInventory, removeFromSlot } from '../../utils/inventory';
+import { getItemBlock, getItemName, getItemTool } from '../../utils/items';
+import { canHarvest, wearsTool } from '../../utils/mining';
+import { CraftingGrid, INVENTORY_CRAFTING_SIZE, TABLE_CRAFTING_SIZE, returnGridItems } from '../../utils/crafting';
+import { GAME_MODES, GameMode, MAX_HEALTH, REGENERATION_INTERVAL, getGameMode } from '../../utils/gameModes';
+import { disposeTextures, preloadTextures } from '../../utils/textures';
+import { WorldOptions, WorldType } from '../../utils/worldTypes';
+import { WorldLimits } from '../../utils/worldLimits';
 import World from './World';
 import Player from './Player';
+import HeldItem from './HeldItem';
 import Hotbar from '../ui/Hotbar';
+import InventoryScreen from '../ui/InventoryScreen';
+import HealthBar from '../ui/HealthBar';
 import Crosshair from '../ui/Crosshair';
+import WorldCreation from '../ui/WorldCreation';
 import './Game.css';
 
+// How long a notice stays above the hotbar
+const NOTICE_DURATION_MS = 3000;
+
 // Create a separate component to handle frame counting
 const FrameCounter = ({ onFrame }: { onFrame: () => void }) => {
   useFrame(() => {
@@ -23,15 +37,34 @@ const Game: React.FC = () => {
   const [playerState, setPlayerState] = useState<PlayerState>({
     position: [0, 20, 0],
     rotation: [0, 0, 0],
-    selectedBlock: 'dirt'
+    selectedSlot: 0
   });
+  const [inventory, setInventory] = useState<Inventory>(createInventory);
+  const [showInventory, setShowInventory] = useState(false);
+  // Crafting grid of the open inventory screen, larger when opened from a crafting table
+  const [craftingSize, setCraftingSize] = useState(INVENTORY_CRAFTING_SIZE);
+  const [gameMode, setGameMode] = useState<GameMode>('survival');
+  const [health, setHealth] = useState(MAX_HEALTH);
+  const [respawnCount, setRespawnCount] = useState(0);
+  // Short message shown above the hotbar, like a tool breaking
+  const [notice, setNotice] = useState<string | null>(null);
+  const previousInventory = useRef(inventory);
+  const rules = GAME_MODES[gameMode];
+  const selectedItem = inventory.slots[playerState.selectedSlot]?.type ?? null;
+  // Game mode for key handlers set up once
+  const gameModeRef = useRef(gameMode);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // No world to load, the player picks the type of a new one
+  const [needsWorld, setNeedsWorld] = useState(false);
+  const [creatingWorld, setCreatingWorld] = useState(false);
   const [currentFps, setCurrentFps] = useState<number>(0);
   const [showPerformanceWarning, setShowPerformanceWarning] = useState<boolean>(false);
   
   // Store update times for throttling
   const lastPositionUpdate = useRef<number>(0);
+  // Player state as last saved, so only real changes are sent to the server
+  const lastSavedPlayer = useRef<string>('');
   const frameCount = useRef<number>(0);
   const performanceMonitor = useRef<{
     lastCheck: number;
@@ -116,35 +149,26 @@ const Game: React.FC = () => {
           console.error("[INIT] Texture loading error:", textureError);
           // Continue anyway, we'll use fallback textures
         }
-        
+
         // Check if we have a world ID in localStorage
         const storedWorldId = localStorage.getItem('worldId');
-        let world: WorldData;
         
         if (storedWorldId) {
           // Load existing world
           console.log(`[INIT] Loading world with ID: ${storedWorldId}`);
           try {
-            world = await getWorld(parseInt(storedWorldId));
-            console.log("[INIT] Existing world loaded successfully");
+            const world = await getWorld(parseInt(storedWorldId));
+            console.log("[INIT] World data loaded:", world);
+            applyWorld(world);
           } catch (worldError) {
+            // If we can't load the stored world, the player creates a new one
             console.error("[INIT] Failed to load existing world:", worldError);
-            // If we can't load the stored world, create a new one
-            const seed = Math.random().toString(36).substring(2, 15);
-            console.log(`[INIT] Creating new world with seed: ${seed}`);
-            world = await createWorld(seed);
-            localStorage.setItem('worldId', world.id.toString());
+            setNeedsWorld(true);
           }
         } else {
-          // Create a new world with a random seed
-          const seed = Math.random().toString(36).substring(2, 15);
-          console.log(`[INIT] Creating new world with seed: ${seed}`);
-          world = await createWorld(seed);
-          localStorage.setItem('worldId', world.id.toString());
+          setNeedsWorld(true);
         }
         
-        console.log("[INIT] World data loaded:", world);
-        setWorldData(world);
         setLoading(false);
       } catch (error) {
         console.error('[INIT] Failed to initialize game:', error);
@@ -165,6 +189,16 @@ const Game: React.FC = () => {
       
       if (e.key === 'Escape') {
         document.exitPointerLock();
+        setShowInventory(false);
+      }
+      
+      // The inventory screen needs the mouse pointer
+      if (e.code === 'KeyE' && GAME_MODES[gameModeRef.current].hasInventory) {
+        setCraftingSize(INVENTORY_CRAFTING_SIZE);
+        setShowInventory(prev => {
+          if (!prev) document.exitPointerLock();
+          return !prev;
+        });
       }
     };
     
@@ -173,9 +207,127 @@ const Game: React.FC = () => {
     return () => {
       clearTimeout(initTimer);
       window.removeEventListener('keydown', handleKeyPress);
+      // Leaving the game frees the block textures, the atlas and the chunk materials on the GPU
+      disposeTextures();
     };
   }, []);
   
+  // Show a loaded or created world, with the player as it was saved
+  const applyWorld = (world: WorldData) => {
+    const playerInventory = loadInventory(world.player?.inventory);
+    const selectedSlot = Math.min(Math.max(world.player?.selected_slot ?? 0, 0), HOTBAR_SIZE - 1);
+    const playerGameMode = getGameMode(world.player?.game_mode);
+    const playerHealth = world.player?.health ?? MAX_HEALTH;
+    
+    const player: PlayerData = {
+      inventory: playerInventory.slots,
+      selected_slot: selectedSlot,
+      game_mode: playerGameMode,
+      health: playerHealth
+    };
+    lastSavedPlayer.current = JSON.stringify(player);
+    setInventory(playerInventory);
+    setPlayerState(prev => ({ ...prev, selectedSlot }));
+    setGameMode(playerGameMode);
+    setHealth(playerHealth);
+    setWorldData(world);
+  };
+  
+  // Save the player with a debounce, like block changes
+  useEffect(() => {
+    if (!worldData) return;
+    
+    const player: PlayerData = {
+      inventory: inventory.slots,
+      selected_slot: playerState.selectedSlot,
+      game_mode: gameMode,
+      health
+    };
+    const serialized = JSON.stringify(player);
+    if (serialized === lastSavedPlayer.current) return;
+    
+    const timer = setTimeout(async () => {
+      try {
+        await updatePlayer(worldData.id, player);
+        lastSavedPlayer.current = serialized;
+      } catch (error) {
+        console.error('[PLAYER] Failed to save the player:', error);
+      }
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [worldData, inventory, playerState.selectedSlot, gameMode, health]);
+  
+  // A tool on its last use that leaves its slot outside the inventory screen has broken
+  useEffect(() => {
+    const previous = previousInventory.current;
+    previousInventory.current = inventory;
+    if (showInventory) return;
+    
+    const broken = previous.slots.find((stack, index) => stack?.durability === 1 && inventory.slots[index] === null);
+    if (broken) setNotice(`${getItemName(broken.type)} broke`);
+  }, [inventory, showInventory]);
+  
+  // Notices fade out on their own
+  useEffect(() => {
+    if (!notice) return;
+    
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+  
+  // Keep the key handlers' game mode current, and close screens the new mode doesn't have
+  useEffect(() => {
+    gameModeRef.current = gameMode;
+    if (!GAME_MODES[gameMode].hasInventory) setShowInventory(false);
+  }, [gameMode]);
+  
+  // Slowly heal while alive
+  useEffect(() => {
+    if (!rules.takesDamage || health <= 0 || health >= MAX_HEALTH) return;
+    
+    const timer = setTimeout(() => setHealth(prev => (prev > 0 ? Math.min(MAX_HEALTH, prev + 1) : prev)), REGENERATION_INTERVAL * 1000);
+    return () => clearTimeout(timer);
+  }, [rules, health]);
+  
+  // Falls and lava hurt, at no health the player has to respawn
+  const handleDamage = useCallback((amount: number) => {
+    setHealth(prev => Math.max(0, prev - amount));
+  }, []);
+  
+  // Free the mouse for the death screen's respawn button
+  useEffect(() => {
+    if (health <= 0) document.exitPointerLock();
+  }, [health]);
+  
+  // Back to the spawn point with full health, the inventory is kept
+  const handleRespawn = () => {
+    setHealth(MAX_HEALTH);
+    setRespawnCount(prev => prev + 1);
+  };
+  
+  // Create the world chosen on the creation screen and remember it for the next visit
+  const handleCreateWorld = async (seed: string, worldType: WorldType, worldOptions: WorldOptions, worldLimits: WorldLimits) => {
+    setCreatingWorld(true);
+    try {
+      console.log(`[INIT] Creating new ${worldType} world with seed: ${seed}`);
+      const world = await createWorld(seed, worldType, worldOptions, worldLimits);
+      localStorage.setItem('worldId', world.id.toString());
+      applyWorld(world);
+      setNeedsWorld(false);
+    } catch (error) {
+      console.error('[INIT] Failed to create world:', error);
+      setError('Failed to create the world. Please try again.');
+    } finally {
+      setCreatingWorld(false);
+    }
+  };
+  
+  // Leave the current world for the creation screen, the world itself stays on the server
+  const handleNewWorld = () => {
+    localStorage.removeItem('worldId');
+    window.location.reload();
+  };
+  
   // Handle player movement with throttling
   const handlePlayerMove = (position: [number, number, number]) => {
     // Only update state when needed
@@ -195,14 +347,51 @@ const Game: React.FC = () => {
     // It's only used for UI, so we update the player component directly
   };
   
-  // Handle block selection
-  const handleSelectBlock = (blockType: BlockType) => {
+  // Handle hotbar slot selection
+  const handleSelectSlot = (slot: number) => {
     setPlayerState(prev => ({
       ...prev,
-      selectedBlock: blockType
+      selectedSlot: slot
     }));
   };
   
+  // Broken blocks go into the inventory when the held tool can harvest them, anything that doesn't fit is lost.
+  // Breaking wears the tool down.
+  const handleBlockBroken = (type: BlockType) => {
+    if (rules.infiniteItems) return;
+    
+    const slot = playerState.selectedSlot;
+    setInventory(prev => {
+      const held = prev.slots[slot];
+      const tool = held ? getItemTool(held.type) : null;
+      const drop = canHarvest(type, tool) ? getBlockDrop(type) : null;
+      const worn = tool && wearsTool(type) ? damageItem(prev, slot).inventory : prev;
+      return drop ? addItem(worn, drop).inventory : worn;
+    });
+  };
+  
+  // Placing a block uses up one from the selected slot
+  const handleBlockPlaced = () => {
+    if (rules.infiniteItems) return;
+    setInventory(prev => removeFromSlot(prev, playerState.selectedSlot));
+  };
+  
+  // Right clicking a crafting table opens the inventory with the larger crafting grid
+  const handleUseBlock = (type: BlockType) => {
+    if (type !== 'crafting_table' || !rules.hasInventory) return false;
+    
+    setCraftingSize(TABLE_CRAFTING_SIZE);
+    setShowInventory(true);
+    document.exitPointerLock();
+    return true;
+  };
+  
+  // Whatever is left in the crafting grid goes back into the inventory when the screen closes
+  const handleReturnGrid = useCallback((grid: CraftingGrid, lost: number) => {
+    setInventory(prev => returnGridItems(grid, prev).inventory);
+    if (lost > 0) setNotice(`No room for ${lost} items from the crafting grid, they were lost`);
+  }, []);
+  
   // Add a render counter to detect excessive re-renders
   const renderCount = useRef(0);
   console.log(`[DEBUG] Game component render #${++renderCount.current}`);
@@ -233,6 +422,11 @@ const Game: React.FC = () => {
     );
   }
   
+  // Choose the type of a new world
+  if (needsWorld) {
+    return <WorldCreation onCreateWorld={handleCreateWorld} creating={creatingWorld} />;
+  }
+  
   // Low performance mode settings
   const qualitySettings = performanceMonitor.current.isLowPerformance
     ? {
@@ -260,6 +454,17 @@ const Game: React.FC = () => {
         performance: { min: 0.5 },
       };
   
+  // Chunk meshing and streaming quality, applied by the world rather than the canvas
+  const worldQualitySettings = performanceMonitor.current.isLowPerformance
+    ? {
+        ambientOcclusion: false,
+        renderDistance: { horizontal: 3, vertical: 1 },
+      }
+    : {
+        ambientOcclusion: true,
+        renderDistance: { horizontal: 4, vertical: 2 },
+      };
+  
   // Show game
   return (
     <div className="game-container">
@@ -282,15 +487,33 @@ const Game: React.FC = () => {
           <Player 
             onPlayerMove={handlePlayerMove} 
             onPlayerRotate={handlePlayerRotate} 
+            gameMode={gameMode}
+            onDamage={handleDamage}
+            respawnCount={respawnCount}
           />
           
+          {/* Item in hand */}
+          {rules.hasInventory && <HeldItem item={selectedItem} />}
+          
           {/* World */}
           {worldData && (
             <World 
               worldId={worldData.id}
               seed={worldData.seed}
+              worldType={worldData.world_type}
+              worldOptions={worldData.world_options}
+              generatorVersion={worldData.generator_version}
+              worldLimits={worldData.world_limits}
               initialChanges={worldData.changes}
-              selectedBlock={playerState.selectedBlock}
+              selectedBlock={selectedItem ? getItemBlock(selectedItem) : null}
+              onBlockBroken={handleBlockBroken}
+              onBlockPlaced={handleBlockPlaced}
+              onUseBlock={handleUseBlock}
+              canInteract={rules.canInteract && health > 0}
+              instantBreak={rules.instantBreak}
+              miningTool={selectedItem ? getItemTool(selectedItem) : null}
+              ambientOcclusion={worldQualitySettings.ambientOcclusion}
+              renderDistance={worldQualitySettings.renderDistance}
             />
           )}
         </Suspense>
@@ -303,14 +526,53 @@ const Game: React.FC = () => {
       
       {/* UI Elements */}
       <Crosshair />
-      <Hotbar onSelectBlock={handleSelectBlock} />
+      {rules.takesDamage && <HealthBar health={health} />}
+      {notice && <div className="game-notice">{notice}</div>}
+      {rules.hasInventory && (
+        <Hotbar
+          slots={inventory.slots}
+          selectedSlot={playerState.selectedSlot}
+          onSelectSlot={handleSelectSlot}
+          showCounts={!rules.infiniteItems}
+        />
+      )}
+      {showInventory && (
+        <InventoryScreen
+          inventory={inventory}
+          onChange={setInventory}
+          onClose={() => setShowInventory(false)}
+          selectedSlot={playerState.selectedSlot}
+          blockPalette={rules.blockPalette}
+          showCounts={!rules.infiniteItems}
+          craftingSize={craftingSize}
+          onReturnGrid={handleReturnGrid}
+        />
+      )}
+      
+      {/* Death screen */}
+      {health <= 0 && (
+        <div className="death-screen">
+          <h1>You died!</h1>
+          <button onClick={handleRespawn}>Respawn</button>
+        </div>
+      )}
       
       {/* Instructions */}
       <div className="instructions">
         <p>WASD to move, SPACE to jump</p>
         <p>Left click to break blocks, right click or press R to place blocks</p>
-        <p>1-9 keys to select blocks</p>
+        <p>1-9 keys to select blocks, E to open the inventory</p>
+        <p>Double tap SPACE to fly in creative, SHIFT to fly down</p>
+        <label className="game-mode-select">
+          Game mode{' '}
+          <select value={gameMode} onChange={e => setGameMode(e.target.value as GameMode)}>
+            {(Object.keys(GAME_MODES) as GameMode[]).map(mode => (
+              <option key={mode} value={mode}>{GAME_MODES[mode].name}</option>
+            ))}
+          </select>
+        </label>
         <p>Click to lock mouse, ESC to unlock</p>
+        <button className="new-world-button" onClick={handleNewWorld}>New world</button>
       </div>
       
       {/* Performance warning */}
@@ -0,0 +1,118 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { DoubleSide, Group } from 'three';
+import { BLOCK_PROPERTIES } from '../../utils/blocks';
+import { ItemType, getItemBlock } from '../../utils/items';
+import { getBlockMaterials, loadTexture } from '../../utils/textures';
+
+interface HeldItemProps {
+  // Item in the selected hotbar slot, null for an empty hand
+  item: ItemType | null;
+}
+
+// Where the item sits in view: right of, below and in front of the camera
+const HELD_OFFSET: [number, number, number] = [0.42, -0.38, -0.7];
+const BLOCK_SIZE = 0.25;
+const ICON_SIZE = 0.4;
+
+// Length of one swing of the arm, in seconds
+const SWING_DURATION = 0.25;
+
+// Drawn after and over the world so the item never sinks into nearby blocks
+const HELD_RENDER_ORDER = 1000;
+
+/**
+ * First-person model of the held item, following the camera. Cube blocks show as a small
+ * block and everything else as its flat icon. Clicks swing it, holding the left button
+ * keeps it swinging like mining.
+ */
+const HeldItem: React.FC<HeldItemProps> = ({ item }) => {
+  const { camera } = useThree();
+  const holder = useRef<Group>(null);
+  const model = useRef<Group>(null);
+  const swingStart = useRef(-Infinity);
+  const mining = useRef(false);
+
+  const block = item ? getItemBlock(item) : null;
+  const showsCube = block !== null && BLOCK_PROPERTIES[block].shape === 'cube';
+
+  // The block's own materials, copied so they can skip the depth test
+  const blockMaterials = useMemo(() => {
+    if (!showsCube || !block) return null;
+    return getBlockMaterials(block).map(material => {
+      const copy = material.clone();
+      copy.depthTest = false;
+      return copy;
+    });
+  }, [block, showsCube]);
+
+  useEffect(() => () => blockMaterials?.forEach(material => material.dispose()), [blockMaterials]);
+
+  // Capture phase, block interaction stops clicks from going further
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!document.pointerLockElement) return;
+      swingStart.current = performance.now() / 1000;
+      if (e.button === 0) mining.current = true;
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      if (e.button === 0) mining.current = false;
+    };
+
+    window.addEventListener('mousedown', handleMouseDown, { capture: true });
+    window.addEventListener('mouseup', handleMouseUp, { capture: true });
+
+    return () => {
+      window.removeEventListener('mousedown', handleMouseDown, { capture: true });
+      window.removeEventListener('mouseup', handleMouseUp, { capture: true });
+    };
+  }, []);
+
+  // Follow the camera, which the player has already moved this frame
+  useFrame(() => {
+    if (!holder.current || !model.current) return;
+
+    holder.current.position.copy(camera.position);
+    holder.current.quaternion.copy(camera.quaternion);
+
+    const now = performance.now() / 1000;
+    let progress = (now - swingStart.current) / SWING_DURATION;
+    if (progress >= 1 && mining.current && document.pointerLockElement) {
+      swingStart.current = now;
+      progress = 0;
+    }
+
+    const swing = progress >= 0 && progress < 1 ? Math.sin(progress * Math.PI) : 0;
+    model.current.rotation.set(-swing * 0.9, 0, -swing * 0.3);
+  });
+
+  if (!item) return null;
+
+  return (
+    <group ref={holder}>
+      <group position={HELD_OFFSET}>
+        <group ref={model}>
+          {showsCube && blockMaterials ? (
+            <mesh material={blockMaterials} rotation={[0, Math.PI / 4, 0]} renderOrder={HELD_RENDER_ORDER}>
+              <boxGeometry args={[BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE]} />
+            </mesh>
+          ) : (
+            <mesh rotation={[0, -Math.PI / 6, 0]} renderOrder={HELD_RENDER_ORDER}>
+              <planeGeometry args={[ICON_SIZE, ICON_SIZE]} />
+              <meshBasicMaterial
+                map={loadTexture(`/resources/icons/${item}.png`)}
+                transparent={true}
+                alphaTest={0.5}
+                depthTest={false}
+                side={DoubleSide}
+              />
+            </mesh>
+          )}
+        </group>
+      </group>
+    </group>
+  );
+};
+
+export default HeldItem;
@@ -1,34 +1,57 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { PointerLockControls } from '@react-three/drei';
-import { Vector3 } from 'three';
+import { Euler, Vector3 } from 'three';
+import { VoxelWorld } from '../../utils/voxelWorld';
+import {
+  PLAYER_EYE_HEIGHT,
+  PHYSICS_TICK_SECONDS,
+  CollisionWorld,
+  PlayerBody,
+  createPlayerBody,
+  stepPlayer
+} from '../../utils/physics';
+import { GAME_MODES, GameMode, LAVA_DAMAGE_PER_SECOND, getFallDamage } from '../../utils/gameModes';
 
 interface PlayerProps {
   onPlayerMove: (position: [number, number, number]) => void;
   onPlayerRotate: (rotation: [number, number, number]) => void;
+  gameMode: GameMode;
+  // Health lost to falling or lava, only in game modes that take damage
+  onDamage: (amount: number) => void;
+  // Bumped to put the player back at the spawn point
+  respawnCount: number;
 }
 
-// Added interface for terrain checking
-interface TerrainCheck {
-  getHeight: (x: number, z: number) => number;
-}
+// Spectators pass through every block
+const NO_COLLISION: CollisionWorld = { isSolid: () => false };
+
+// Two presses of jump within this time toggle flying
+const DOUBLE_TAP_MS = 300;
+const DEBUG_PHYSICS = false;
 
-// Global terrain reference - will be set by the World component
-let terrainRef: TerrainCheck | null = null;
+// Block queries for collision - will be set by the World component
+let worldRef: VoxelWorld | null = null;
 
-// Export function to allow World to pass terrain reference
-export const setTerrainReference = (terrain: TerrainCheck) => {
-  terrainRef = terrain;
-  console.log("[TERRAIN] Terrain reference set");
+// Export function to allow World to share its voxel world
+export const setWorldReference = (world: VoxelWorld | null) => {
+  worldRef = world;
+  if (DEBUG_PHYSICS) {
+    console.log("[TERRAIN] World reference set");
+  }
 };
 
-const Player: React.FC<PlayerProps> = ({ onPlayerMove, onPlayerRotate }) => {
+const Player: React.FC<PlayerProps> = ({ onPlayerMove, onPlayerRotate, gameMode, onDamage, respawnCount }) => {
   const { camera } = useThree();
   // Using type assertion for the PointerLockControls ref because the type definition doesn't 
   // expose all runtime properties we need (isLocked, moveRight, moveForward)
   const controlsRef = useRef<any>(null);
-  const velocity = useRef<Vector3>(new Vector3(0, 0, 0));
-  const direction = useRef<Vector3>(new Vector3(0, 0, 0));
+  
+  // Simulation state at the last two ticks, the camera is drawn between them
+  const body = useRef<PlayerBody | null>(null);
+  const previousBody = useRef<PlayerBody | null>(null);
+  const tickAccumulator = useRef(0);
+  const viewRotation = useRef(new Euler(0, 0, 0, 'YXZ'));
   
   // Track last update time for throttling
   const lastUpdateTime = useRef<number>(0);
@@ -41,19 +64,42 @@ const Player: React.FC<PlayerProps> = ({ onPlayerMove, onPlayerRotate }) => {
   const [moveLeft, setMoveLeft] = useState(false);
   const [moveRight, setMoveRight] = useState(false);
   const [jump, setJump] = useState(false);
-  const [isGrounded, setIsGrounded] = useState(false);
+  const [descend, setDescend] = useState(false);
+  
+  // Flying state, and the rules of the game mode for the key handlers
+  const flying = useRef(false);
+  const lastJumpPress = useRef(0);
+  const rules = GAME_MODES[gameMode];
+  const rulesRef = useRef(rules);
+  // Lava damage builds up between ticks until it's a whole point
+  const lavaDamage = useRef(0);
   
   // Track frame execution
   const frameCount = useRef(0);
   const lastFrameTime = useRef(0);
   
   // Constants
-  const SPEED = 7;
-  const GRAVITY = 2; // Adjusted gravity for better feel
-  const JUMP_FORCE = 0.4; // Initial upward velocity when jumping
+  const MAX_TICKS_PER_FRAME = 8; // After a long stall, skip ahead instead of catching up
   const UPDATE_INTERVAL = 100; // Throttle updates to 10 per second
   const POSITION_THRESHOLD = 0.1; // Only update if moved more than this
   
+  // Spectators always fly, survival players never do
+  useEffect(() => {
+    rulesRef.current = rules;
+    if (rules.noclip) flying.current = true;
+    else if (!rules.canFly) flying.current = false;
+  }, [rules]);
+  
+  // Back to the spawn point, the body is placed again on the next frame
+  useEffect(() => {
+    if (respawnCount === 0) return;
+    
+    camera.position.set(0, 20, 0);
+    body.current = null;
+    previousBody.current = null;
+    lavaDamage.current = 0;
+  }, [camera, respawnCount]);
+  
   // Set initial position
   useEffect(() => {
     camera.position.set(0, 20, 0);
@@ -112,12 +158,24 @@ const Player: React.FC<PlayerProps> = ({ onPlayerMove, onPlayerRotate }) => {
         setMoveRight(true);
         break;
       case 'Space':
-        if (isGrounded) {
-          setJump(true);
+        setJump(true); // Held jump repeats each time the player lands
+        
+        // Double tapping jump takes off or lands in modes that can fly
+        if (!e.repeat && rulesRef.current.canFly && !rulesRef.current.noclip) {
+          const now = performance.now();
+          if (now - lastJumpPress.current < DOUBLE_TAP_MS) {
+            flying.current = !flying.current;
+            lastJumpPress.current = 0;
+          } else {
+            lastJumpPress.current = now;
+          }
         }
         break;
+      case 'ShiftLeft':
+        setDescend(true);
+        break;
     }
-  }, [isGrounded]);
+  }, []);
   
   const handleKeyUp = useCallback((e: KeyboardEvent) => {
     console.log(`Key up: ${e.code}`);
@@ -134,6 +192,12 @@ const Player: React.FC<PlayerProps> = ({ onPlayerMove, onPlayerRotate }) => {
       case 'KeyD':
         setMoveRight(false);
         break;
+      case 'Space':
+        setJump(false);
+        break;
+      case 'ShiftLeft':
+        setDescend(false);
+        break;
     }
   }, []);
   
@@ -163,171 +227,96 @@ const Player: React.FC<PlayerProps> = ({ onPlayerMove, onPlayerRotate }) => {
       lastFrameTime.current = currentTime;
     }
     
-    // Make sure we have valid delta time to prevent physics glitches
-    if (delta > 0.1) {
-      console.log(`[DEBUG] Large delta time detected: ${delta}, capping to 0.1`);
-      delta = 0.1;
-    }
-    
     // Only process movement if pointer is locked
     if (controlsRef.current?.isLocked) {
-      // Calculate movement direction
-      direction.current.z = Number(moveForward) - Number(moveBackward);
-      direction.current.x = Number(moveRight) - Number(moveLeft);
-      direction.current.normalize();
-      
-      // Apply movement
-      if (moveForward || moveBackward) {
-        velocity.current.z = direction.current.z * SPEED * delta; // Removed the negative sign to correct direction
-      } else {
-        velocity.current.z = 0;
-      }
-      
-      if (moveLeft || moveRight) {
-        velocity.current.x = direction.current.x * SPEED * delta;
-      } else {
-        velocity.current.x = 0;
-      }
-      
-      // Get terrain height at player position with safety checks
-      let terrainHeight = 1; // Default for flat world
-      
-      try {
-        if (terrainRef) {
-          // Get terrain height at current position with safety bounds
-          const playerX = Math.floor(camera.position.x);
-          const playerZ = Math.floor(camera.position.z);
-          
-          terrainHeight = terrainRef.getHeight(playerX, playerZ);
+      // Without block queries there is nothing to stand on yet, so hold still
+      if (worldRef) {
+        if (!body.current) {
+          const feet = {
+            x: camera.position.x,
+            y: camera.position.y - PLAYER_EYE_HEIGHT,
+            z: camera.position.z
+          };
           
-          // Validate terrain height to catch bad values
-          if (isNaN(terrainHeight) || !isFinite(terrainHeight)) {
-            console.error(`[TERRAIN] Invalid terrain height at (${playerX}, ${playerZ}): ${terrainHeight}`);
-            terrainHeight = 1; // Fallback to a safe default
+          // Spawning inside terrain (a mountain under the spawn point) lifts the player on top of it
+          if (worldRef.isSolid(feet.x, feet.y, feet.z)) {
+            feet.y = (worldRef.getHighestBlock(feet.x, feet.z) ?? feet.y) + 1;
           }
           
-          // Add player height (1.8 blocks tall)
-          terrainHeight += 1.8;
-          
-          // Log occasionally for debugging
-          if (frameCount.current % 200 === 0) {
-            console.log(`[TERRAIN] Player at (${playerX}, ${playerZ}), terrain height: ${terrainHeight}`);
-          }
-        }
-      } catch (error) {
-        console.error("[TERRAIN] Error getting terrain height:", error);
-        terrainHeight = 1 + 1.8; // Fallback to a safe default plus player height
-      }
-      
-      // Apply gravity with proper terrain collision
-      if (camera.position.y > terrainHeight) {
-        // Apply gravity - continuous acceleration downward
-        velocity.current.y -= GRAVITY * delta;
-        setIsGrounded(false);
-        
-        // Cap maximum falling speed to prevent falling through objects at high velocities
-        if (velocity.current.y < -20) {
-          velocity.current.y = -20;
+          body.current = createPlayerBody(feet);
+          previousBody.current = body.current;
         }
         
-        // Log collision info occasionally
-        if (frameCount.current % 100 === 0) {
-          console.log(`[COLLISION] Player position: ${camera.position.x.toFixed(2)}, ${camera.position.y.toFixed(2)}, ${camera.position.z.toFixed(2)}, isGrounded: ${isGrounded}, terrainHeight: ${terrainHeight}, velocity Y: ${velocity.current.y.toFixed(2)}`);
-        }
-      } else {
-        // Landing on ground
-        velocity.current.y = 0;
-        camera.position.y = terrainHeight; // Position player on top of terrain
-        setIsGrounded(true);
+        viewRotation.current.setFromQuaternion(camera.quaternion, 'YXZ');
+        const input = {
+          forward: Number(moveForward) - Number(moveBackward),
+          right: Number(moveRight) - Number(moveLeft),
+          jump,
+          descend,
+          flying: flying.current,
+          yaw: viewRotation.current.y
+        };
+        const collisionWorld = rules.noclip ? NO_COLLISION : worldRef;
         
-        if (frameCount.current % 100 === 0) {
-          console.log(`[COLLISION] Player grounded at position: ${camera.position.x.toFixed(2)}, ${camera.position.y.toFixed(2)}, ${camera.position.z.toFixed(2)}, terrainHeight: ${terrainHeight}`);
-        }
-      }
-      
-      // Apply jump - just set initial velocity and let physics handle the rest
-      if (jump && isGrounded) {
-        velocity.current.y = JUMP_FORCE; // No delta multiplication - this is initial velocity
-        setJump(false);
-        setIsGrounded(false);
-      }
-      
-      // Move the camera
-      if (controlsRef.current) {
-        // Store current position for collision detection
-        const oldX = camera.position.x;
-        const oldZ = camera.position.z;
-        
-        // Apply movement
-        controlsRef.current.moveRight(velocity.current.x);
-        controlsRef.current.moveForward(velocity.current.z);
-        
-        // Check if new position collides with blocks
-        try {
-          if (terrainRef) {
-            const newX = camera.position.x;
-            const newZ = camera.position.z;
-            
-            // Check terrain height at new position
-            const newTerrainHeight = terrainRef.getHeight(Math.floor(newX), Math.floor(newZ)) + 1.8;
+        // Run as many fixed ticks as the elapsed time covers
+        tickAccumulator.current += delta;
+        let ticks = 0;
+        while (tickAccumulator.current >= PHYSICS_TICK_SECONDS && ticks < MAX_TICKS_PER_FRAME) {
+          previousBody.current = body.current;
+          body.current = stepPlayer(collisionWorld, body.current, input);
+          tickAccumulator.current -= PHYSICS_TICK_SECONDS;
+          ticks++;
+          
+          const { position } = body.current;
+          const feetBlock = worldRef.getBlock(position.x, position.y, position.z);
+          const headBlock = worldRef.getBlock(position.x, position.y + PLAYER_EYE_HEIGHT, position.z);
+          
+          // Water breaks a fall
+          if (feetBlock === 'water') {
+            body.current = { ...body.current, fallDistance: 0 };
+          }
+          
+          // Flying creative players land when they touch the ground
+          if (flying.current && !rules.noclip && body.current.onGround) {
+            flying.current = false;
+            input.flying = false;
+          }
+          
+          if (rules.takesDamage) {
+            if (body.current.onGround && !previousBody.current.onGround) {
+              const damage = getFallDamage(body.current.fallDistance);
+              if (damage > 0) onDamage(damage);
+            }
             
-            // Validate new terrain height
-            if (isNaN(newTerrainHeight) || !isFinite(newTerrainHeight)) {
-              console.error(`[TERRAIN] Invalid new terrain height at (${newX}, ${newZ}): ${newTerrainHeight}`);
-            } else {
-              // FIXED: Improved collision logic to respect jump arcs
-              
-              // If we're on the ground, only allow small steps (0.5 blocks)
-              if (isGrounded) {
-                if (newTerrainHeight > camera.position.y + 0.5) {
-                  // Revert horizontal movement - can't step up that high
-                  camera.position.x = oldX;
-                  camera.position.z = oldZ;
-                  
-                  if (frameCount.current % 100 === 0) {
-                    console.log(`[COLLISION] Blocked ground movement at ${newX.toFixed(2)}, ${newZ.toFixed(2)}, terrain height: ${newTerrainHeight}`);
-                  }
-                }
-              } 
-              // If we're actively jumping (moving upward)
-              else if (velocity.current.y > 0) {
-                // Check if we would horizontally collide with a block that's too high to jump onto
-                if (newTerrainHeight > camera.position.y) {
-                  // Calculate where the player would be if they continued their jump arc
-                  const projectedHeight = camera.position.y + velocity.current.y;
-                  
-                  // If the projected height is still below the terrain, we'd hit the side of the block
-                  if (projectedHeight < newTerrainHeight) {
-                    // Block horizontal movement - this maintains the vertical jumping motion
-                    camera.position.x = oldX;
-                    camera.position.z = oldZ;
-                    
-                    if (frameCount.current % 100 === 0) {
-                      console.log(`[COLLISION] Jump blocked by terrain wall: current height=${camera.position.y.toFixed(2)}, projected=${projectedHeight.toFixed(2)}, terrain=${newTerrainHeight.toFixed(2)}`);
-                    }
-                  }
-                  // Otherwise, if we'd clear the block top, allow the movement (proper jump over)
-                }
-              }
-              // If we're falling, check if we'd hit a block horizontally
-              else if (velocity.current.y < 0) {
-                if (newTerrainHeight > camera.position.y) {
-                  // Block horizontal movement while falling into a wall
-                  camera.position.x = oldX;
-                  camera.position.z = oldZ;
-                }
+            if (feetBlock === 'lava' || headBlock === 'lava') {
+              lavaDamage.current += LAVA_DAMAGE_PER_SECOND * PHYSICS_TICK_SECONDS;
+              if (lavaDamage.current >= 1) {
+                onDamage(Math.floor(lavaDamage.current));
+                lavaDamage.current -= Math.floor(lavaDamage.current);
               }
             }
           }
-        } catch (error) {
-          console.error("[TERRAIN] Error checking collision:", error);
-          // No collision handling on error, just let the player move
+        }
+        if (ticks === MAX_TICKS_PER_FRAME) {
+          tickAccumulator.current = 0;
+        }
+        
+        // Draw the camera part way from the previous tick to the latest one
+        const alpha = tickAccumulator.current / PHYSICS_TICK_SECONDS;
+        const from = previousBody.current!.position;
+        const to = body.current.position;
+        camera.position.set(
+          from.x + (to.x - from.x) * alpha,
+          from.y + (to.y - from.y) * alpha + PLAYER_EYE_HEIGHT,
+          from.z + (to.z - from.z) * alpha
+        );
+        
+        // Log collision info occasionally
+        if (DEBUG_PHYSICS && frameCount.current % 100 === 0) {
+          console.log(`[COLLISION] Player position: ${to.x.toFixed(2)}, ${to.y.toFixed(2)}, ${to.z.toFixed(2)}, isGrounded: ${body.current.onGround}, velocity Y: ${body.current.velocity.y.toFixed(2)}`);
         }
       }
       
-      // Apply vertical movement from gravity/jumping
-      camera.position.y += velocity.current.y;
-      
       // Throttle position and rotation updates
       const currentTime = state.clock.getElapsedTime() * 1000;
       const timeSinceLastUpdate = currentTime - lastUpdateTime.current;
@@ -1,42 +1,100 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
 import { Vector3, InstancedMesh, Matrix4, Object3D } from 'three';
-import { TerrainGenerator } from '../../utils/noise';
-import { Block, BlockChange, ChunkData } from '../../utils/types';
+import { WorldGenerator, WorldOptions, WorldType, createWorldGenerator } from '../../utils/worldTypes';
+import { WorldLimits, getChunksInsideBorder, isChunkInsideLimits } from '../../utils/worldLimits';
+import { getSavedChunkKeys, loadSavedChunk, saveChunk } from '../../utils/chunkDatabase';
+import { BlockChange, BlockType, ChunkData } from '../../utils/types';
+import { CHUNK_SIZE, getChunkKey, getChunkCoords } from '../../utils/chunks';
+import { LightEngine, packLight, MAX_LIGHT } from '../../utils/lighting';
+import { createPaddedVolume } from '../../utils/mesher';
+import { createChunkFromStorage, getChunkChanges } from '../../utils/chunkJobs';
+import { SerializedChunkStorage } from '../../utils/chunkStorage';
+import { getChunkWorkerPool } from '../../utils/workerPool';
+import { ChunkScheduler, RenderDistance, flushMeshUploads } from '../../utils/chunkScheduler';
+import { VoxelWorld } from '../../utils/voxelWorld';
+import { MAX_REACH_DISTANCE } from '../../utils/raycaster';
+import { PLAYER_EYE_HEIGHT, getPlayerBox, intersectsBlock } from '../../utils/physics';
+import { isReplaceable, isSolid } from '../../utils/blocks';
+import { MiningTool } from '../../utils/mining';
 import Chunk from './Chunk';
+import BlockInteraction from './BlockInteraction';
+import WorldBorder from './WorldBorder';
 import { updateWorldChanges } from '../../utils/api';
-import { setTerrainReference } from './Player';
+import { setWorldReference } from './Player';
 import { getBlockGeometry } from '../../utils/textures';
 
 interface WorldProps {
   worldId: number;
   seed: string;
+  worldType: WorldType;
+  worldOptions: WorldOptions;
+  generatorVersion: number;
+  worldLimits: WorldLimits;
   initialChanges: BlockChange[];
-  selectedBlock: string;
+  // Block in the selected hotbar slot, null when it's empty
+  selectedBlock: BlockType | null;
+  onBlockBroken: (type: BlockType) => void;
+  onBlockPlaced: (type: BlockType) => void;
+  // A block was right clicked, returns whether it did something instead of being placed against
+  onUseBlock: (type: BlockType) => boolean;
+  // Whether blocks can be targeted, broken and placed at all
+  canInteract: boolean;
+  // Blocks break on click rather than being mined over time
+  instantBreak: boolean;
+  miningTool: MiningTool | null;
+  ambientOcclusion: boolean;
+  renderDistance: RenderDistance;
 }
 
 // Configuration
-const CHUNK_SIZE = 16;
-const RENDER_DISTANCE = 3; // Chunks in each direction
+const PLAN_INTERVAL_MS = 250; // How often the chunks to stream are re-planned
+const FRAME_BUDGET_MS = 4; // Main thread time per frame for adding chunks and meshes
+const MAX_PENDING_CHUNKS = 8; // Chunks generating on workers at once
 const DEBUG_CHUNK_MANAGEMENT = false;
 const DEBUG_BLOCK_CHANGES = false;
+const DEBUG_LIGHTING = false;
 
-// Helper to create a unique block key
-const makeBlockKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+// A generated chunk waiting for frame time to be added to the world
+interface ReadyChunk {
+  chunkX: number;
+  chunkY: number;
+  chunkZ: number;
+  storage: SerializedChunkStorage;
+  // Length of the change list when generation started
+  submittedChangeCount: number;
+}
 
-const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBlock }) => {
+const World: React.FC<WorldProps> = ({ worldId, seed, worldType, worldOptions, generatorVersion, worldLimits, initialChanges, selectedBlock, onBlockBroken, onBlockPlaced, onUseBlock, canInteract, instantBreak, miningTool, ambientOcclusion, renderDistance }) => {
   const { camera, scene } = useThree();
   const [chunks, setChunks] = useState<ChunkData[]>([]);
   const [changes, setChanges] = useState<BlockChange[]>(initialChanges || []);
   const [pendingChanges, setPendingChanges] = useState<BlockChange[]>([]);
-  const [terrainGenerator, setTerrainGenerator] = useState<TerrainGenerator | null>(null);
+  const [terrainGenerator, setTerrainGenerator] = useState<WorldGenerator | null>(null);
   const [isInitialChunksLoaded, setIsInitialChunksLoaded] = useState(false);
   
+  // Latest change list for callbacks that finish after the render that started them
+  const changesRef = useRef<BlockChange[]>(changes);
+  
+  // Chunks waiting on the worker pool, and finished ones waiting for frame time
+  const pendingChunks = useRef(new Set<string>());
+  const readyChunks = useRef<ReadyChunk[]>([]);
+  
+  // Chunks inside the world border still to generate in the background, nearest first.
+  // They are saved to the chunk database rather than loaded, and read back once in range.
+  const pregenerationQueue = useRef<Array<[number, number, number]>>([]);
+  const pregenerationTotal = useRef(0);
+  
+  // Streaming order of missing chunks around the player
+  const [scheduler] = useState(() => new ChunkScheduler(renderDistance));
+  const viewDirection = useRef(new Vector3());
+  
+  // Block queries for every subsystem: loaded chunks, recorded changes, then the generator
+  const [voxelWorld] = useState(() => new VoxelWorld());
+  
   // Refs for performance tracking
   const lastCheckedPosition = useRef<Vector3>(new Vector3(0, 0, 0));
-  const loadedChunks = useRef<Map<string, ChunkData>>(new Map());
   const visibleChunks = useRef<Set<string>>(new Set());
-  const isChunkGenerationInProgress = useRef(false);
   const lastFrameTime = useRef(performance.now());
   const frameCount = useRef(0);
   
@@ -53,63 +111,60 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
   // Track current player chunk
   const playerChunkRef = useRef({ x: 0, y: 0, z: 0 });
   
-  // Track broken blocks for collision detection
-  const brokenBlocks = useRef(new Set<string>());
+  // Changes already recorded in the voxel world, saved changes are recorded when the world
+  // loads and already patched into chunks as they generate
+  const processedChangeCount = useRef(initialChanges?.length ?? 0);
+  
+  // Mesh revision per chunk, bumped when a neighbour changes a block on the shared border
+  const chunkRevisions = useRef(new Map<string, number>());
+  
+  // Voxel light for loaded chunks
+  const lightEngineRef = useRef<LightEngine | null>(null);
   
   // Initialize terrain generator
   useEffect(() => {
-    console.log("[TERRAIN] Creating terrain generator with seed:", seed);
+    console.log(`[TERRAIN] Creating ${worldType} terrain generator v${generatorVersion} with seed:`, seed);
+    let cancelled = false;
     
     try {
-      const generator = new TerrainGenerator(seed);
-      setTerrainGenerator(generator);
+      const generator = createWorldGenerator(seed, worldType, worldOptions, generatorVersion, worldLimits);
+      voxelWorld.setGenerator(generator);
+      voxelWorld.setLimits(worldLimits);
+      
+      pregenerationQueue.current = [];
+      if (worldLimits.pregenerate) {
+        // Skip chunks saved in an earlier session
+        getSavedChunkKeys(worldId)
+          .then(savedKeys => {
+            if (cancelled) return;
+            
+            const insideBorder = getChunksInsideBorder(worldLimits, CHUNK_SIZE);
+            pregenerationQueue.current = insideBorder.filter(([x, y, z]) => !savedKeys.has(getChunkKey(x, y, z)));
+            pregenerationTotal.current = insideBorder.length;
+            
+            if (DEBUG_CHUNK_MANAGEMENT) {
+              console.log(`[WORLD] Pre-generating ${pregenerationQueue.current.length} of ${pregenerationTotal.current} chunks inside the world border`);
+            }
+          })
+          .catch(error => console.error('[WORLD] Chunk database unavailable, skipping pre-generation:', error));
+      }
       
-      // Share terrain generator with Player component for collision detection
-      setTerrainReference({
-        getHeight: (x: number, z: number) => generator.getHeight(x, z)
+      lightEngineRef.current = new LightEngine({
+        getBlock: (x: number, y: number, z: number) => voxelWorld.getBlock(x, y, z),
+        getSunlitHeight: (x: number, z: number) => voxelWorld.getSunlitHeight(x, z)
       });
+      setTerrainGenerator(generator);
       
-      // Generate initial chunks immediately when the generator is created
-      if (generator) {
-        generateInitialChunks(generator);
-      }
+      // Share block queries with the Player component for collision detection
+      setWorldReference(voxelWorld);
     } catch (error) {
       console.error("[TERRAIN] Error initializing terrain generator:", error);
     }
-  }, [seed]);
-  
-  // 1. Create a function to update the terrain reference with the latest broken blocks - should be defined first
-  const updateTerrainReference = useCallback((generator: TerrainGenerator) => {
-    // Create a terrain reference that considers broken blocks
-    const terrainWithChanges = {
-      getHeight: (x: number, z: number): number => {
-        if (!generator) return 10; // Default fallback
-          
-        // Get the base terrain height at this position
-        let baseHeight = generator.getHeight(x, z);
-        
-        // Now check for broken blocks to adjust the height
-        // We need to check all blocks from the terrain height downward
-        for (let y = baseHeight; y > 0; y--) {
-          const blockKey = makeBlockKey(x, y, z);
-          
-          // If this block has been broken
-          if (brokenBlocks.current.has(blockKey)) {
-            // If the block at this position is broken, the new height is one below
-            baseHeight = y - 1;
-          } else {
-            // Stop checking once we find a non-broken block
-            break;
-          }
-        }
-        
-        return baseHeight;
-      }
-    };
     
-    // Set the terrain reference for collision detection
-    setTerrainReference(terrainWithChanges);
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [worldId, seed, worldType, worldOptions, generatorVersion, worldLimits, voxelWorld]);
   
   // 2. Apply changes to a chunk - should be defined before being used
   const applyChangesToChunk = useCallback((chunk: ChunkData, changesList: BlockChange[]) => {
@@ -135,34 +190,25 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
     
     if (relevantChanges.length === 0) return chunk;
     
-    // Apply changes to chunk
-    const updatedChunk = { ...chunk };
-    const blocksMap = new Map<string, Block>();
-    
-    // First, create a map of all blocks for easy access
-    updatedChunk.blocks.forEach(block => {
-      blocksMap.set(makeBlockKey(block.x, block.y, block.z), block);
-    });
+    // Apply changes to a copy, so rendered chunks see a new storage object
+    const storage = chunk.storage.clone();
     
     // Apply each change
     relevantChanges.forEach(change => {
-      const blockKey = makeBlockKey(change.x, change.y, change.z);
+      const localX = change.x - minX;
+      const localY = change.y - minY;
+      const localZ = change.z - minZ;
       
       if (change.action === 'remove') {
         // Remove block
-        blocksMap.delete(blockKey);
+        storage.set(localX, localY, localZ, null);
         
         if (DEBUG_BLOCK_CHANGES) {
           console.log(`[WORLD] Block removed at ${change.x},${change.y},${change.z} from chunk ${chunkX},${chunkY},${chunkZ}`);
         }
       } else if (change.action === 'place') {
         // Place block
-        blocksMap.set(blockKey, {
-          x: change.x,
-          y: change.y,
-          z: change.z,
-          type: change.type
-        });
+        storage.set(localX, localY, localZ, change.type);
         
         if (DEBUG_BLOCK_CHANGES) {
           console.log(`[WORLD] Block placed at ${change.x},${change.y},${change.z} in chunk ${chunkX},${chunkY},${chunkZ}`);
@@ -170,18 +216,141 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
       }
     });
     
-    // Update the chunk's blocks array
-    updatedChunk.blocks = Array.from(blocksMap.values());
+    return { ...chunk, storage };
+  }, []);
+  
+  // Look up a block anywhere in the world, used by chunks to cull faces on their borders
+  const getBlockAt = useCallback((x: number, y: number, z: number): BlockType | null => {
+    return voxelWorld.getBlock(x, y, z);
+  }, [voxelWorld]);
+  
+  // Bump the mesh revision of chunks whose light changed
+  const invalidateLitChunks = useCallback((dirtyChunks: Set<string>) => {
+    dirtyChunks.forEach(chunkKey => {
+      chunkRevisions.current.set(chunkKey, (chunkRevisions.current.get(chunkKey) ?? 0) + 1);
+    });
+  }, []);
+  
+  // Light a chunk that was just added to the loaded chunks
+  const lightLoadedChunk = useCallback((chunkX: number, chunkY: number, chunkZ: number) => {
+    const lightEngine = lightEngineRef.current;
+    if (!lightEngine) return;
     
-    return updatedChunk;
+    const startTime = performance.now();
+    invalidateLitChunks(lightEngine.lightChunk(chunkX, chunkY, chunkZ));
+    
+    if (DEBUG_LIGHTING) {
+      console.log(`[LIGHT] Lit chunk ${chunkX},${chunkY},${chunkZ} in ${(performance.now() - startTime).toFixed(1)}ms`);
+    }
+  }, [invalidateLitChunks]);
+  
+  // Packed light around a chunk for meshing, chunks without light are drawn fully sky lit
+  const getChunkLight = useCallback((chunkX: number, chunkY: number, chunkZ: number): Uint8Array => {
+    const volume = createPaddedVolume();
+    const lightEngine = lightEngineRef.current;
+    if (!lightEngine) return volume.fill(packLight(MAX_LIGHT, 0));
+    
+    return lightEngine.fillPaddedLight(volume, chunkX, chunkY, chunkZ);
   }, []);
   
+  // Generate a chunk on the worker pool, or read it from the chunk database when the world
+  // is pre-generated. The result waits in the ready queue until the loader has frame time
+  // to add it to the world. Resolves to false if it was cancelled or failed.
+  const requestChunk = useCallback(async (chunkX: number, chunkY: number, chunkZ: number): Promise<boolean> => {
+    const chunkKey = getChunkKey(chunkX, chunkY, chunkZ);
+    pendingChunks.current.add(chunkKey);
+    
+    if (worldLimits.pregenerate) {
+      const saved = await loadSavedChunk(worldId, chunkKey).catch(() => null);
+      if (saved) {
+        // Saved terrain has none of the block changes yet
+        readyChunks.current.push({ chunkX, chunkY, chunkZ, storage: saved, submittedChangeCount: 0 });
+        return true;
+      }
+    }
+    
+    const submittedChangeCount = changesRef.current.length;
+    const task = getChunkWorkerPool().submit(`generate:${chunkKey}`, {
+      kind: 'generate',
+      seed,
+      worldType,
+      worldOptions,
+      generatorVersion,
+      worldLimits,
+      chunkX,
+      chunkY,
+      chunkZ,
+      changes: getChunkChanges(changesRef.current, chunkX, chunkY, chunkZ)
+    });
+    
+    return task.promise
+      .then(result => {
+        if (!result) {
+          pendingChunks.current.delete(chunkKey);
+          return false;
+        }
+        
+        readyChunks.current.push({ chunkX, chunkY, chunkZ, storage: result.storage, submittedChangeCount });
+        return true;
+      })
+      .catch(error => {
+        pendingChunks.current.delete(chunkKey);
+        console.error(`[WORLD] Error generating chunk at ${chunkKey}:`, error);
+        return false;
+      });
+  }, [worldId, seed, worldType, worldOptions, generatorVersion, worldLimits]);
+  
+  // Generate a chunk inside the world border straight into the chunk database, without
+  // adding it to the world. It stays pending until saved, so it isn't requested twice.
+  const pregenerateChunk = useCallback((chunkX: number, chunkY: number, chunkZ: number) => {
+    const chunkKey = getChunkKey(chunkX, chunkY, chunkZ);
+    pendingChunks.current.add(chunkKey);
+    
+    getChunkWorkerPool().submit(`generate:${chunkKey}`, {
+      kind: 'generate',
+      seed,
+      worldType,
+      worldOptions,
+      generatorVersion,
+      worldLimits,
+      chunkX,
+      chunkY,
+      chunkZ,
+      changes: []
+    }).promise
+      .then(result => result && saveChunk(worldId, chunkKey, result.storage))
+      .catch(error => console.error(`[WORLD] Error pre-generating chunk at ${chunkKey}:`, error))
+      .finally(() => pendingChunks.current.delete(chunkKey));
+  }, [worldId, seed, worldType, worldOptions, generatorVersion, worldLimits]);
+  
+  // Add a generated chunk to the loaded chunks and light it
+  const integrateReadyChunk = useCallback((ready: ReadyChunk): ChunkData => {
+    const { chunkX, chunkY, chunkZ } = ready;
+    const chunkKey = getChunkKey(chunkX, chunkY, chunkZ);
+    
+    // Catch up on changes made while the chunk was being generated
+    const chunk = createChunkFromStorage(chunkX, chunkY, chunkZ, ready.storage);
+    const updatedChunk = applyChangesToChunk(chunk, changesRef.current.slice(ready.submittedChangeCount));
+    
+    pendingChunks.current.delete(chunkKey);
+    voxelWorld.setChunk(chunkKey, updatedChunk);
+    lightLoadedChunk(chunkX, chunkY, chunkZ);
+    
+    if (DEBUG_CHUNK_MANAGEMENT) {
+      console.log(`[WORLD] Generated new chunk at ${chunkKey}`);
+    }
+    
+    chunkMetrics.current.totalGeneratedChunks++;
+    chunkMetrics.current.totalLoadedChunks++;
+    return updatedChunk;
+  }, [voxelWorld, applyChangesToChunk, lightLoadedChunk]);
+  
   // 3. Generate initial chunks - should be defined after the functions it depends on
-  const generateInitialChunks = useCallback((generator: TerrainGenerator) => {
+  const generateInitialChunks = useCallback(() => {
     if (isInitialChunksLoaded) return;
     
     console.log("[WORLD] Generating initial chunks...");
-    const initialChunks: ChunkData[] = [];
+    const requests: Promise<boolean>[] = [];
     
     // Generate chunks around the player's starting position (0, 20, 0)
     const startX = Math.floor(0 / CHUNK_SIZE);
@@ -197,50 +366,64 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
         for (let z = startZ - 1; z <= startZ + 1; z++) {
           const chunkKey = getChunkKey(x, y, z);
           
-          if (!loadedChunks.current.has(chunkKey)) {
-            try {
-              const chunk = generator.generateChunk(x, y, z, CHUNK_SIZE);
-              
-              // Apply any existing changes to this chunk
-              const updatedChunk = applyChangesToChunk(chunk, changes);
-              
-              initialChunks.push(updatedChunk);
-              loadedChunks.current.set(chunkKey, updatedChunk);
-              visibleChunks.current.add(chunkKey);
-            } catch (error) {
-              console.error(`[WORLD] Error generating chunk at ${chunkKey}:`, error);
-            }
+          if (isChunkInsideLimits(worldLimits, y, CHUNK_SIZE) && !voxelWorld.hasChunk(chunkKey) && !pendingChunks.current.has(chunkKey)) {
+            visibleChunks.current.add(chunkKey);
+            requests.push(requestChunk(x, y, z));
           }
         }
       }
     }
     
-    if (initialChunks.length > 0) {
+    // The spawn area is added all at once, without waiting for frame budget
+    Promise.all(requests).then(() => {
+      const initialChunks = readyChunks.current.splice(0).map(integrateReadyChunk);
+      
+      // Streaming starts either way, it requests whatever the spawn area is still missing
       setChunks(initialChunks);
       setIsInitialChunksLoaded(true);
-      console.log(`[WORLD] Generated ${initialChunks.length} initial chunks`);
+      if (initialChunks.length === 0) {
+        console.error('[WORLD] No initial chunks could be generated, streaming them instead');
+      } else {
+        console.log(`[WORLD] Generated ${initialChunks.length} initial chunks`);
+      }
       
-      chunkMetrics.current.totalGeneratedChunks += initialChunks.length;
       chunkMetrics.current.visibleChunkCount = initialChunks.length;
-      chunkMetrics.current.totalLoadedChunks = initialChunks.length;
-
-      // Create updated terrain reference to ensure accurate collision detection
-      updateTerrainReference(generator);
+    });
+  }, [voxelWorld, worldLimits, isInitialChunksLoaded, requestChunk, integrateReadyChunk]);
+  
+  // Generate initial chunks as soon as the generator is created
+  useEffect(() => {
+    if (terrainGenerator) {
+      generateInitialChunks();
     }
-  }, [isInitialChunksLoaded, changes, applyChangesToChunk, updateTerrainReference]);
-  
-  // Function to get chunk coordinates from world position
-  const getChunkCoords = useCallback((x: number, y: number, z: number) => {
-    return {
-      x: Math.floor(x / CHUNK_SIZE),
-      y: Math.floor(y / CHUNK_SIZE),
-      z: Math.floor(z / CHUNK_SIZE)
-    };
-  }, []);
+  }, [terrainGenerator, generateInitialChunks]);
   
-  // Function to generate a chunk key for caching
-  const getChunkKey = useCallback((x: number, y: number, z: number) => {
-    return `${x},${y},${z}`;
+  // Keep the change list current for chunks that finish generating later
+  useEffect(() => {
+    changesRef.current = changes;
+  }, [changes]);
+  
+  // Chunks sharing a border with a changed block need to re-mesh their culled faces
+  const invalidateNeighbourMeshes = useCallback((x: number, y: number, z: number) => {
+    const chunkCoords = getChunkCoords(x, y, z);
+    const chunkPosition = [chunkCoords.x, chunkCoords.y, chunkCoords.z];
+    const localPosition = [
+      x - chunkCoords.x * CHUNK_SIZE,
+      y - chunkCoords.y * CHUNK_SIZE,
+      z - chunkCoords.z * CHUNK_SIZE
+    ];
+    
+    for (let axis = 0; axis < 3; axis++) {
+      let offset = 0;
+      if (localPosition[axis] === 0) offset = -1;
+      else if (localPosition[axis] === CHUNK_SIZE - 1) offset = 1;
+      else continue;
+      
+      const neighbour = [...chunkPosition];
+      neighbour[axis] += offset;
+      const neighbourKey = getChunkKey(neighbour[0], neighbour[1], neighbour[2]);
+      chunkRevisions.current.set(neighbourKey, (chunkRevisions.current.get(neighbourKey) ?? 0) + 1);
+    }
   }, []);
   
   // Update chunk system when changes occur
@@ -251,10 +434,20 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
       console.log(`[WORLD] Processing ${changes.length} block changes`);
     }
     
+    // Record the new changes and invalidate meshes across chunk borders
+    const newChanges = changes.slice(processedChangeCount.current);
+    if (newChanges.length === 0) return;
+    
+    newChanges.forEach(change => {
+      voxelWorld.recordChange(change);
+      invalidateNeighbourMeshes(change.x, change.y, change.z);
+    });
+    processedChangeCount.current = changes.length;
+    
     // Group changes by chunk
     const chunkChanges = new Map<string, BlockChange[]>();
     
-    changes.forEach(change => {
+    newChanges.forEach(change => {
       const { x, y, z } = change;
       const chunkCoords = getChunkCoords(x, y, z);
       const chunkKey = getChunkKey(chunkCoords.x, chunkCoords.y, chunkCoords.z);
@@ -271,43 +464,33 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
     
     chunkChanges.forEach((changesForChunk, chunkKey) => {
       // Get the chunk
-      const chunk = loadedChunks.current.get(chunkKey);
+      const chunk = voxelWorld.getChunk(chunkKey);
       
       if (chunk) {
         // Apply changes to existing chunk
         const updatedChunk = applyChangesToChunk(chunk, changesForChunk);
         
         // Update the chunk in memory
-        loadedChunks.current.set(chunkKey, updatedChunk);
+        voxelWorld.setChunk(chunkKey, updatedChunk);
         
         // Add to list of chunks that need UI update
         if (visibleChunks.current.has(chunkKey)) {
           chunksNeedingUpdate.push(updatedChunk);
         }
-      } else if (visibleChunks.current.has(chunkKey)) {
-        // This chunk should be visible but wasn't loaded yet
-        // We'll generate it with changes applied
-        if (DEBUG_CHUNK_MANAGEMENT) {
-          console.log(`[WORLD] Changes found for unloaded chunk: ${chunkKey}, will generate it`);
-        }
-        
-        const [x, y, z] = chunkKey.split(',').map(Number);
-        
-        if (terrainGenerator) {
-          const newChunk = terrainGenerator.generateChunk(x, y, z, CHUNK_SIZE);
-          const updatedChunk = applyChangesToChunk(newChunk, changesForChunk);
-          
-          loadedChunks.current.set(chunkKey, updatedChunk);
-          visibleChunks.current.add(chunkKey);
-          chunksNeedingUpdate.push(updatedChunk);
-          
-          chunkMetrics.current.totalGeneratedChunks++;
-          chunkMetrics.current.totalLoadedChunks++;
-          chunkMetrics.current.visibleChunkCount++;
-        }
+      } else if (DEBUG_CHUNK_MANAGEMENT && pendingChunks.current.has(chunkKey)) {
+        // Chunks still generating pick up these changes when they finish
+        console.log(`[WORLD] Changes found for pending chunk: ${chunkKey}, applied once generated`);
       }
     });
     
+    // Relight around the new changes now that the loaded chunks reflect them
+    const lightEngine = lightEngineRef.current;
+    if (lightEngine) {
+      newChanges.forEach(change => {
+        invalidateLitChunks(lightEngine.updateBlock(change.x, change.y, change.z));
+      });
+    }
+    
     // Update the rendered chunks if any were changed
     if (chunksNeedingUpdate.length > 0) {
       if (DEBUG_BLOCK_CHANGES) {
@@ -333,106 +516,110 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
       
       chunkMetrics.current.blockChangesCount += changes.length;
     }
-  }, [changes, getChunkKey, getChunkCoords, applyChangesToChunk, terrainGenerator, isInitialChunksLoaded]);
+  }, [changes, voxelWorld, applyChangesToChunk, invalidateNeighbourMeshes, invalidateLitChunks, isInitialChunksLoaded]);
   
-  // Continually check for chunks to load/unload based on player position
+  // Stream chunks around the player: re-plan a few times a second, and spend a slice of
+  // every frame handing chunks to the workers and adding finished ones to the scene
   useFrame(() => {
-    if (!terrainGenerator || !isInitialChunksLoaded || isChunkGenerationInProgress.current) return;
-    
-    // Throttle updates to every ~250ms (or adjust as needed)
-    const now = performance.now();
-    if (now - lastFrameTime.current < 250) return;
-    lastFrameTime.current = now;
-    
-    // Get current player position and chunk
-    const playerPos = new Vector3(camera.position.x, camera.position.y, camera.position.z);
-    const currentChunk = getChunkCoords(playerPos.x, playerPos.y, playerPos.z);
-    
-    // Only update if player has moved to a new chunk
-    if (
-      currentChunk.x === playerChunkRef.current.x && 
-      currentChunk.y === playerChunkRef.current.y && 
-      currentChunk.z === playerChunkRef.current.z
-    ) {
-      return;
-    }
-    
-    // Update player chunk reference
-    playerChunkRef.current = currentChunk;
-    
-    if (DEBUG_CHUNK_MANAGEMENT) {
-      console.log(`[WORLD] Player moved to chunk ${currentChunk.x},${currentChunk.y},${currentChunk.z}`);
-    }
+    if (!terrainGenerator || !isInitialChunksLoaded) return;
     
-    // Lock chunk generation to prevent multiple concurrent updates
-    isChunkGenerationInProgress.current = true;
-    
-    // Calculate which chunks should be visible
-    const newVisibleChunks = new Set<string>();
+    const frameStart = performance.now();
+    const deadline = frameStart + FRAME_BUDGET_MS;
     const chunksToLoad: ChunkData[] = [];
+    const chunksToUnload = new Set<string>();
     
-    // Determine which chunks should be visible in render distance
-    for (let x = -RENDER_DISTANCE; x <= RENDER_DISTANCE; x++) {
-      for (let y = -RENDER_DISTANCE; y <= RENDER_DISTANCE; y++) {
-        for (let z = -RENDER_DISTANCE; z <= RENDER_DISTANCE; z++) {
-          // Calculate Manhattan distance for faster checks
-          const distance = Math.abs(x) + Math.abs(y) + Math.abs(z);
-          if (distance > RENDER_DISTANCE * 1.5) continue; // Use a slightly extended range for smoother transitions
-          
-          const chunkX = currentChunk.x + x;
-          const chunkY = currentChunk.y + y;
-          const chunkZ = currentChunk.z + z;
-          const chunkKey = getChunkKey(chunkX, chunkY, chunkZ);
-          
-          // This chunk should be visible
-          newVisibleChunks.add(chunkKey);
+    if (frameStart - lastFrameTime.current >= PLAN_INTERVAL_MS) {
+      lastFrameTime.current = frameStart;
+      
+      const currentChunk = getChunkCoords(camera.position.x, camera.position.y, camera.position.z);
+      if (
+        DEBUG_CHUNK_MANAGEMENT && (
+          currentChunk.x !== playerChunkRef.current.x ||
+          currentChunk.y !== playerChunkRef.current.y ||
+          currentChunk.z !== playerChunkRef.current.z
+        )
+      ) {
+        console.log(`[WORLD] Player moved to chunk ${currentChunk.x},${currentChunk.y},${currentChunk.z}`);
+      }
+      playerChunkRef.current = currentChunk;
+      
+      // Queue missing chunks in range, nearest and closest to the crosshair first
+      camera.getWorldDirection(viewDirection.current);
+      scheduler.setRenderDistance(renderDistance);
+      scheduler.update(
+        currentChunk,
+        viewDirection.current,
+        (chunkKey, chunkY) => (
+          isChunkInsideLimits(worldLimits, chunkY, CHUNK_SIZE) &&
+          !voxelWorld.hasChunk(chunkKey) &&
+          !pendingChunks.current.has(chunkKey)
+        )
+      );
+      
+      // Drop chunks that moved past the unload distance, which is wider than the load distance.
+      // Their blocks and light are freed too, they are requested again when back in range.
+      visibleChunks.current.forEach(chunkKey => {
+        const [x, y, z] = chunkKey.split(',').map(Number);
+        if (scheduler.isInKeepRange(x - currentChunk.x, y - currentChunk.y, z - currentChunk.z)) return;
+        
+        visibleChunks.current.delete(chunkKey);
+        if (pendingChunks.current.has(chunkKey)) {
+          // Stop generating chunks that left the render distance before they finished
+          getChunkWorkerPool().cancel(`generate:${chunkKey}`);
+        } else {
+          chunksToUnload.add(chunkKey);
+          voxelWorld.removeChunk(chunkKey);
+          lightEngineRef.current?.removeChunk(x, y, z);
+          chunkRevisions.current.delete(chunkKey);
+          chunkMetrics.current.totalLoadedChunks--;
           
-          // Check if we need to load this chunk
-          if (!loadedChunks.current.has(chunkKey)) {
-            try {
-              // Generate the chunk
-              const newChunk = terrainGenerator.generateChunk(chunkX, chunkY, chunkZ, CHUNK_SIZE);
-              
-              // Apply any changes to this chunk
-              const updatedChunk = applyChangesToChunk(newChunk, changes);
-              
-              // Store in our cache
-              loadedChunks.current.set(chunkKey, updatedChunk);
-              
-              // Add to list to be added to rendered chunks
-              chunksToLoad.push(updatedChunk);
-              
-              if (DEBUG_CHUNK_MANAGEMENT) {
-                console.log(`[WORLD] Generated new chunk at ${chunkKey}`);
-              }
-              
-              chunkMetrics.current.totalGeneratedChunks++;
-              chunkMetrics.current.totalLoadedChunks++;
-            } catch (error) {
-              console.error(`[WORLD] Error generating chunk at ${chunkKey}:`, error);
-            }
+          if (DEBUG_CHUNK_MANAGEMENT) {
+            console.log(`[WORLD] Unloading chunk at ${chunkKey}`);
           }
         }
-      }
+      });
     }
     
-    // Find chunks to unload (no longer visible)
-    const chunksToUnload = new Set<string>();
-    for (const chunkKey of visibleChunks.current) {
-      if (!newVisibleChunks.has(chunkKey)) {
-        chunksToUnload.add(chunkKey);
-        
-        if (DEBUG_CHUNK_MANAGEMENT) {
-          console.log(`[WORLD] Unloading chunk at ${chunkKey}`);
-        }
+    // Hand queued chunks to the workers a few at a time, so the queue order stays current
+    while (pendingChunks.current.size < MAX_PENDING_CHUNKS) {
+      const request = scheduler.next();
+      if (!request) break;
+      if (voxelWorld.hasChunk(request.key) || pendingChunks.current.has(request.key)) continue;
+      
+      visibleChunks.current.add(request.key);
+      requestChunk(request.x, request.y, request.z);
+    }
+    
+    // Pre-generate chunks inside the border once everything in range has been handed out
+    while (pendingChunks.current.size < MAX_PENDING_CHUNKS && scheduler.queuedCount === 0 && pregenerationQueue.current.length > 0) {
+      const [x, y, z] = pregenerationQueue.current.shift()!;
+      const chunkKey = getChunkKey(x, y, z);
+      if (voxelWorld.hasChunk(chunkKey) || pendingChunks.current.has(chunkKey)) continue;
+      
+      pregenerateChunk(x, y, z);
+      
+      const remaining = pregenerationQueue.current.length;
+      if (DEBUG_CHUNK_MANAGEMENT && (remaining === 0 || remaining % 500 === 0)) {
+        console.log(`[WORLD] Pre-generation: ${pregenerationTotal.current - remaining} of ${pregenerationTotal.current} chunks`);
       }
     }
     
-    // Update the visible chunks reference
-    visibleChunks.current = newVisibleChunks;
+    // Add finished chunks, then upload finished meshes, while the frame budget lasts
+    while (readyChunks.current.length > 0 && performance.now() < deadline) {
+      const ready = readyChunks.current.shift()!;
+      const chunkKey = getChunkKey(ready.chunkX, ready.chunkY, ready.chunkZ);
+      
+      // Finished after leaving the render distance, it is requested again if it comes back
+      if (!visibleChunks.current.has(chunkKey)) {
+        pendingChunks.current.delete(chunkKey);
+        continue;
+      }
+      chunksToLoad.push(integrateReadyChunk(ready));
+    }
+    flushMeshUploads(deadline);
     
     // Update metrics
-    chunkMetrics.current.visibleChunkCount = newVisibleChunks.size;
+    chunkMetrics.current.visibleChunkCount = visibleChunks.current.size;
     
     // Update chunks state if there are changes
     if (chunksToLoad.length > 0 || chunksToUnload.size > 0) {
@@ -455,9 +642,6 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
         console.log(`[WORLD] Updated chunks: loaded ${chunksToLoad.length}, unloaded ${chunksToUnload.size}`);
       }
     }
-    
-    // Unlock chunk generation
-    isChunkGenerationInProgress.current = false;
   });
   
   // Sync changes with server with debounce
@@ -483,144 +667,93 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
     return () => clearTimeout(timer);
   }, [pendingChanges, worldId]);
   
-  // Handle block click (remove block)
-  const handleBlockClick = useCallback((block: Block, face: number) => {
+  // Forward changes made through the voxel world to the change list and the server sync
+  useEffect(() => {
+    voxelWorld.setChangeListener(change => {
+      setChanges(prev => [...prev, change]);
+      setPendingChanges(prev => [...prev, change]);
+    });
+    return () => voxelWorld.setChangeListener(null);
+  }, [voxelWorld]);
+  
+  // Handle block breaking
+  const handleBreakBlock = useCallback((x: number, y: number, z: number) => {
     // Verify the player is close enough to break this block (distance check)
     const playerPos = new Vector3(camera.position.x, camera.position.y, camera.position.z);
-    const blockCenter = new Vector3(block.x + 0.5, block.y + 0.5, block.z + 0.5);
+    const blockCenter = new Vector3(x + 0.5, y + 0.5, z + 0.5);
     const distance = playerPos.distanceTo(blockCenter);
     
-    // Define maximum interaction distance - should match the one in BlockInteraction.tsx
-    const MAX_BREAK_DISTANCE = 5;
+    // Raycasts are limited to the same reach, measured to the face rather than the center
+    const MAX_BREAK_DISTANCE = MAX_REACH_DISTANCE + 1;
     
     if (distance > MAX_BREAK_DISTANCE) {
       if (DEBUG_BLOCK_CHANGES) {
-        console.log(`[WORLD] Cannot break block at ${block.x},${block.y},${block.z} - too far away (${distance.toFixed(2)} > ${MAX_BREAK_DISTANCE})`);
+        console.log(`[WORLD] Cannot break block at ${x},${y},${z} - too far away (${distance.toFixed(2)} > ${MAX_BREAK_DISTANCE})`);
       }
       return;
     }
-
-    if (DEBUG_BLOCK_CHANGES) {
-      console.log(`[WORLD] Breaking block at ${block.x}, ${block.y}, ${block.z}, distance: ${distance.toFixed(2)}`);
-    }
-    
-    const change: BlockChange = {
-      ...block,
-      action: 'remove'
-    };
-    
-    // Add to broken blocks set for collision detection
-    brokenBlocks.current.add(makeBlockKey(block.x, block.y, block.z));
-    
-    // Update changes state
-    setChanges(prev => [...prev, change]);
-    setPendingChanges(prev => [...prev, change]);
-    
-    // Update terrain reference immediately after breaking a block
-    if (terrainGenerator) {
-      updateTerrainReference(terrainGenerator);
-    }
-  }, [camera.position, terrainGenerator, updateTerrainReference]);
-  
-  // Handle block right click (place block)
-  const handleBlockRightClick = useCallback((block: Block, face: number) => {
-    // Calculate the position of the new block based on the face
-    const faceDirections = [
-      [1, 0, 0],  // right
-      [-1, 0, 0], // left
-      [0, 1, 0],  // top
-      [0, -1, 0], // bottom
-      [0, 0, 1],  // front
-      [0, 0, -1], // back
-    ];
     
-    // Ensure face index is valid
-    const validFace = Math.min(Math.max(0, face), 5);
-    const dir = faceDirections[validFace];
-    
-    if (!dir) {
-      console.error(`[WORLD] Invalid face index: ${face}`);
+    // Bedrock and blocks outside the world's limits can't be broken
+    if (!voxelWorld.canChangeBlock(x, y, z)) {
+      if (DEBUG_BLOCK_CHANGES) {
+        console.log(`[WORLD] Cannot break block at ${x},${y},${z} - unbreakable or outside the world limits`);
+      }
       return;
     }
+
+    if (DEBUG_BLOCK_CHANGES) {
+      console.log(`[WORLD] Breaking block at ${x}, ${y}, ${z}, distance: ${distance.toFixed(2)}`);
+    }
     
-    const newPosition = {
-      x: block.x + dir[0],
-      y: block.y + dir[1],
-      z: block.z + dir[2],
-    };
+    // The broken block goes to the player's inventory
+    const change = voxelWorld.setBlock(x, y, z, null);
+    if (change) onBlockBroken(change.type);
+  }, [camera.position, voxelWorld, onBlockBroken]);
+  
+  // Handle block placement in the empty cell next to the targeted face
+  const handlePlaceBlock = useCallback((x: number, y: number, z: number, face: number) => {
+    // Nothing to place from an empty hotbar slot
+    if (!selectedBlock) return;
     
     if (DEBUG_BLOCK_CHANGES) {
-      console.log(`[WORLD] Attempting to place ${selectedBlock} at ${newPosition.x}, ${newPosition.y}, ${newPosition.z}, from face ${validFace}`);
+      console.log(`[WORLD] Attempting to place ${selectedBlock} at ${x}, ${y}, ${z}, from face ${face}`);
     }
     
-    // Check if there's already a block at this position - check all chunks
-    const blockKey = makeBlockKey(newPosition.x, newPosition.y, newPosition.z);
-    let blockExists = false;
-    
-    // Check in loaded chunks
-    for (const chunk of loadedChunks.current.values()) {
-      if (chunk.blocks.some(b => 
-        b.x === newPosition.x && b.y === newPosition.y && b.z === newPosition.z
-      )) {
-        blockExists = true;
-        break;
-      }
-    }
+    // Check if there's already a block at this position, including changes to unloaded chunks.
+    // Fluids and plants make way for the new block.
+    const blockExists = !isReplaceable(voxelWorld.getBlock(x, y, z));
     
-    // Check in changes
-    const pendingBlockExists = changes.some(change => 
-      change.action === 'place' && 
-      change.x === newPosition.x && 
-      change.y === newPosition.y && 
-      change.z === newPosition.z &&
-      // Make sure it hasn't been removed after being placed
-      !changes.some(removeChange => 
-        removeChange.action === 'remove' &&
-        removeChange.x === newPosition.x && 
-        removeChange.y === newPosition.y && 
-        removeChange.z === newPosition.z &&
-        changes.indexOf(removeChange) > changes.indexOf(change)
-      )
-    );
+    // Solid blocks can't be placed where they would overlap the player's hitbox
+    const playerBox = getPlayerBox({
+      x: camera.position.x,
+      y: camera.position.y - PLAYER_EYE_HEIGHT,
+      z: camera.position.z
+    });
+    const wouldBlockPlayer = isSolid(selectedBlock) && intersectsBlock(playerBox, x, y, z);
     
-    // Also check if position is part of a player or would block the player
-    const playerPosition = {
-      x: Math.floor(camera.position.x),
-      y: Math.floor(camera.position.y),
-      z: Math.floor(camera.position.z)
-    };
+    // Blocks can only be placed between the bottom and the build height, inside the border
+    const outsideLimits = !voxelWorld.canChangeBlock(x, y, z);
     
-    const wouldBlockPlayer = 
-      (newPosition.x === playerPosition.x && 
-       newPosition.y === playerPosition.y && 
-       newPosition.z === playerPosition.z) ||
-      (newPosition.x === playerPosition.x && 
-       newPosition.y === playerPosition.y + 1 && 
-       newPosition.z === playerPosition.z);
-    
-    if (!blockExists && !pendingBlockExists && !wouldBlockPlayer) {
-      const change: BlockChange = {
-        ...newPosition,
-        type: selectedBlock as any,
-        action: 'place'
-      };
-      
+    if (!blockExists && !wouldBlockPlayer && !outsideLimits) {
       if (DEBUG_BLOCK_CHANGES) {
-        console.log(`[WORLD] Placing ${selectedBlock} block at ${newPosition.x}, ${newPosition.y}, ${newPosition.z}`);
+        console.log(`[WORLD] Placing ${selectedBlock} block at ${x}, ${y}, ${z}`);
       }
       
-      setChanges(prev => [...prev, change]);
-      setPendingChanges(prev => [...prev, change]);
+      if (voxelWorld.setBlock(x, y, z, selectedBlock)) onBlockPlaced(selectedBlock);
     } else {
       if (DEBUG_BLOCK_CHANGES) {
-        console.log(`[WORLD] Cannot place block at ${newPosition.x}, ${newPosition.y}, ${newPosition.z} - ${
-          blockExists ? 'space already occupied' : 
-          pendingBlockExists ? 'pending block exists' : 
-          'would block player'
+        console.log(`[WORLD] Cannot place block at ${x}, ${y}, ${z} - ${
+          blockExists ? 'space already occupied' : wouldBlockPlayer ? 'would block player' : 'outside the world limits'
         }`);
       }
     }
-  }, [selectedBlock, changes, camera.position]);
+  }, [selectedBlock, camera.position, voxelWorld, onBlockPlaced]);
+  
+  // Blocks like crafting tables open something when right clicked
+  const handleUseBlock = useCallback((x: number, y: number, z: number) => {
+    const type = voxelWorld.getBlock(x, y, z);
+    return type !== null && onUseBlock(type);
+  }, [voxelWorld, onUseBlock]);
   
   // Debug stats display
   useFrame(() => {
@@ -632,62 +765,15 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
     }
   });
   
-  // Create enhanced terrain reference with block changes awareness
+  // Saved changes answer block queries in chunks that haven't loaded yet
   useEffect(() => {
-    if (!terrainGenerator) return;
-
-    // Process initial broken blocks from changes
-    if (initialChanges?.length > 0) {
-      initialChanges.forEach(change => {
-        if (change.action === 'remove') {
-          brokenBlocks.current.add(makeBlockKey(change.x, change.y, change.z));
-        }
-      });
-    }
-
-    // Create a terrain reference that considers broken blocks
-    const terrainWithChanges = {
-      getHeight: (x: number, z: number): number => {
-        if (!terrainGenerator) return 10; // Default fallback
-          
-        // Get the base terrain height at this position
-        let baseHeight = terrainGenerator.getHeight(x, z);
-        
-        // Now check for broken blocks to adjust the height
-        // We need to check all blocks from the terrain height downward
-        for (let y = baseHeight; y > 0; y--) {
-          const blockKey = makeBlockKey(x, y, z);
-          
-          // If this block has been broken
-          if (brokenBlocks.current.has(blockKey)) {
-            // If the block at this position is broken, the new height is one below
-            baseHeight = y - 1;
-          } else {
-            // Stop checking once we find a non-broken block
-            break;
-          }
-        }
-        
-        return baseHeight;
-      }
-    };
-    
-    // Set the terrain reference for collision detection
-    setTerrainReference(terrainWithChanges);
-    
-  }, [terrainGenerator, initialChanges]);
-
-  // Update the brokenBlocks tracker when new changes occur
+    initialChanges?.forEach(change => voxelWorld.recordChange(change));
+  }, [voxelWorld, initialChanges]);
+  
+  // Stop sharing the voxel world with the player once the world is gone
   useEffect(() => {
-    changes.forEach(change => {
-      if (change.action === 'remove') {
-        brokenBlocks.current.add(makeBlockKey(change.x, change.y, change.z));
-      } else if (change.action === 'place') {
-        // For completeness - if a block is placed where one was broken before
-        brokenBlocks.current.delete(makeBlockKey(change.x, change.y, change.z));
-      }
-    });
-  }, [changes]);
+    return () => setWorldReference(null);
+  }, []);
   
   // Render the world
   return (
@@ -713,26 +799,46 @@ const World: React.FC<WorldProps> = ({ worldId, seed, initialChanges, selectedBl
         const chunkX = chunk.x ?? chunk.position.x;
         const chunkY = chunk.y ?? chunk.position.y;
         const chunkZ = chunk.z ?? chunk.position.z;
+        const chunkKey = getChunkKey(chunkX, chunkY, chunkZ);
         
         return (
           <Chunk
-            key={`${chunkX},${chunkY},${chunkZ}`}
+            key={chunkKey}
             chunk={{
               x: chunkX,
               y: chunkY,
               z: chunkZ,
-              blocks: chunk.blocks,
+              storage: chunk.storage,
               position: {
                 x: chunkX,
                 y: chunkY,
                 z: chunkZ
               }
             }}
-            onBlockClick={handleBlockClick}
-            onBlockRightClick={handleBlockRightClick}
+            revision={chunkRevisions.current.get(chunkKey) ?? 0}
+            getBlock={getBlockAt}
+            getLight={getChunkLight}
+            ambientOcclusion={ambientOcclusion}
           />
         );
       })}
+      
+      {/* Boundary wall of worlds with a border */}
+      {worldLimits.borderRadius !== null && (
+        <WorldBorder radius={worldLimits.borderRadius} minY={worldLimits.minY} maxY={worldLimits.maxY} />
+      )}
+      
+      {/* Crosshair targeting, block breaking and placement */}
+      {canInteract && (
+        <BlockInteraction
+          world={voxelWorld}
+          onBreakBlock={handleBreakBlock}
+          onPlaceBlock={handlePlaceBlock}
+          onUseBlock={handleUseBlock}
+          instantBreak={instantBreak}
+          miningTool={miningTool}
+        />
+      )}
     </>
   );
 };
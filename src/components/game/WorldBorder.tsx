@@ -0,0 +1,36 @@
+import React from 'react';
+import { DoubleSide } from 'three';
+
+interface WorldBorderProps {
+  // Half the width of the square border around the origin
+  radius: number;
+  minY: number;
+  maxY: number;
+}
+
+// Translucent wall along the world border, from the bottom of the world to the build height
+const WorldBorder: React.FC<WorldBorderProps> = ({ radius, minY, maxY }) => {
+  const height = maxY + 1 - minY;
+  const centerY = minY + height / 2;
+
+  // One wall per side: position and rotation around the y axis
+  const walls: Array<{ position: [number, number, number]; rotation: number }> = [
+    { position: [0, centerY, -radius], rotation: 0 },
+    { position: [0, centerY, radius], rotation: 0 },
+    { position: [-radius, centerY, 0], rotation: Math.PI / 2 },
+    { position: [radius, centerY, 0], rotation: Math.PI / 2 }
+  ];
+
+  return (
+    <group>
+      {walls.map(({ position, rotation }, index) => (
+        <mesh key={index} position={position} rotation={[0, rotation, 0]}>
+          <planeGeometry args={[radius * 2, height]} />
+          <meshBasicMaterial color="#4fa8ff" transparent={true} opacity={0.25} side={DoubleSide} depthWrite={false} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+export default WorldBorder;
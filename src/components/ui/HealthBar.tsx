@@ -0,0 +1,25 @@
+import { MAX_HEALTH } from '../../utils/gameModes';
+import './HealthBar.css';
+
+interface HealthBarProps {
+  // In half hearts
+  health: number;
+}
+
+// Row of hearts above the hotbar, each heart is two points of health
+const HealthBar: React.FC<HealthBarProps> = ({ health }) => {
+  const hearts = Array.from({ length: MAX_HEALTH / 2 }, (_, index) => {
+    const points = health - index * 2;
+    return points >= 2 ? 'full' : points === 1 ? 'half' : 'empty';
+  });
+
+  return (
+    <div className="health-bar">
+      {hearts.map((state, index) => (
+        <span key={index} className={`heart ${state}`}>♥</span>
+      ))}
+    </div>
+  );
+};
+
+export default HealthBar;
@@ -1,73 +1,56 @@
-import { useState, useEffect } from 'react';
-import { BlockType } from '../../utils/types';
+import { useEffect } from 'react';
+import { HOTBAR_SIZE, InventorySlot } from '../../utils/inventory';
+import ItemSlot from './ItemSlot';
 import './Hotbar.css';
 
 interface HotbarProps {
-  onSelectBlock: (blockType: BlockType) => void;
+  // Every inventory slot, the hotbar shows the first ones
+  slots: InventorySlot[];
+  selectedSlot: number;
+  onSelectSlot: (slot: number) => void;
+  showCounts: boolean;
 }
 
-const Hotbar: React.FC<HotbarProps> = ({ onSelectBlock }) => {
-  const [selectedSlot, setSelectedSlot] = useState(0);
-  
-  // Available block types
-  const blockTypes: BlockType[] = [
-    'dirt',
-    'grass',
-    'stone',
-    'wood',
-    'leaves',
-    'brick',
-    'sand',
-    'glass',
-    'water'
-  ];
-  
+const Hotbar: React.FC<HotbarProps> = ({ slots, selectedSlot, onSelectSlot, showCounts }) => {
   // Handle keyboard input for slot selection
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Number keys 1-9
       if (e.key >= '1' && e.key <= '9') {
-        const slot = parseInt(e.key) - 1;
-        if (slot < blockTypes.length) {
-          setSelectedSlot(slot);
-          onSelectBlock(blockTypes[slot]);
-        }
+        onSelectSlot(parseInt(e.key) - 1);
       }
-      
-      // Mouse wheel (not implemented here, would need additional event listeners)
     };
-    
+
+    // Mouse wheel cycles through the hotbar, only while playing
+    const handleWheel = (e: WheelEvent) => {
+      if (e.deltaY === 0 || !document.pointerLockElement) return;
+
+      const direction = e.deltaY > 0 ? 1 : -1;
+      onSelectSlot((selectedSlot + direction + HOTBAR_SIZE) % HOTBAR_SIZE);
+    };
+
     document.addEventListener('keydown', handleKeyDown);
-    
+    document.addEventListener('wheel', handleWheel);
+
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('wheel', handleWheel);
     };
-  }, [blockTypes, onSelectBlock]);
-  
-  // Set initial selected block
-  useEffect(() => {
-    onSelectBlock(blockTypes[selectedSlot]);
-  }, []);
-  
+  }, [onSelectSlot, selectedSlot]);
+
   return (
     <div className="hotbar">
-      {blockTypes.map((blockType, index) => (
-        <div 
-          key={blockType}
+      {slots.slice(0, HOTBAR_SIZE).map((stack, index) => (
+        <ItemSlot
+          key={index}
           className={`hotbar-slot ${index === selectedSlot ? 'selected' : ''}`}
-          onClick={() => {
-            setSelectedSlot(index);
-            onSelectBlock(blockType);
-          }}
-        >
-          <img 
-            src={`/resources/icons/${blockType === 'grass' ? 'grass' : blockType}.png`} 
-            alt={blockType} 
-          />
-        </div>
+          stack={stack}
+          showCount={showCounts}
+          onClick={() => onSelectSlot(index)}
+        />
       ))}
     </div>
   );
 };
 
-export default Hotbar; 
\ No newline at end of file
+export default Hotbar;
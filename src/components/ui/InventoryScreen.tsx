@@ -0,0 +1,245 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  HOTBAR_SIZE,
+  INVENTORY_SIZE,
+  Inventory,
+  addStack,
+  createItemStack,
+  moveStack,
+  quickMove,
+  setSlot,
+  splitStack
+} from '../../utils/inventory';
+import { ITEM_TYPES, ItemType, getMaxStackSize } from '../../utils/items';
+import {
+  CraftingGrid,
+  Recipe,
+  TABLE_CRAFTING_SIZE,
+  craftItem,
+  createCraftingGrid,
+  fillGridWithRecipe,
+  getCraftingResult,
+  returnGridItems
+} from '../../utils/crafting';
+import ItemSlot from './ItemSlot';
+import RecipeBook from './RecipeBook';
+import './InventoryScreen.css';
+
+interface InventoryScreenProps {
+  inventory: Inventory;
+  onChange: (inventory: Inventory) => void;
+  onClose: () => void;
+  // Hotbar slot that palette picks go to
+  selectedSlot: number;
+  // Offer every item type, for game modes with unlimited items
+  blockPalette: boolean;
+  showCounts: boolean;
+  // Side of the crafting grid, larger at a crafting table
+  craftingSize: number;
+  // Items left in the crafting grid when the screen closes, they belong back in the inventory.
+  // lost counts the ones that won't fit.
+  onReturnGrid: (grid: CraftingGrid, lost: number) => void;
+}
+
+// What is being dragged: a stack from a slot, or an item type from the palette.
+// Crafting grid slots are numbered after the inventory slots.
+type DragSource = { slot: number } | { type: ItemType };
+
+// Most times a shift-click on the output crafts in a row
+const MAX_CRAFTS_AT_ONCE = 64;
+
+const range = (start: number, end: number): number[] => Array.from({ length: end - start }, (_, i) => start + i);
+
+/**
+ * Full inventory: drag a stack onto another slot to move, merge or swap it (hold Ctrl to
+ * move half), shift-click to send it between the hotbar and the rest, right-click to split it.
+ * Stacks dragged into the crafting grid show what they make in the output slot, clicking it
+ * crafts once and shift-clicking crafts as many as possible. With the block palette,
+ * clicking an item puts a full stack in the selected hotbar slot.
+ */
+const InventoryScreen: React.FC<InventoryScreenProps> = ({
+  inventory,
+  onChange,
+  onClose,
+  selectedSlot,
+  blockPalette,
+  showCounts,
+  craftingSize,
+  onReturnGrid
+}) => {
+  const [dragged, setDragged] = useState<DragSource | null>(null);
+  const [grid, setGrid] = useState<CraftingGrid>(() => createCraftingGrid(craftingSize));
+  const [showRecipeBook, setShowRecipeBook] = useState(false);
+  const craftingResult = getCraftingResult(grid);
+
+  // Hand the grid back however the screen gets closed, only once it really closes
+  const latest = useRef({ grid, inventory, onReturnGrid });
+  latest.current = { grid, inventory, onReturnGrid };
+  useEffect(() => {
+    const closing = latest;
+    return () => {
+      const { grid: finalGrid, inventory: finalInventory } = closing.current;
+      closing.current.onReturnGrid(finalGrid, returnGridItems(finalGrid, finalInventory).lost);
+    };
+  }, []);
+
+  // Inventory and crafting grid as one list of slots, so stacks move between them like between any two slots
+  const allSlots = (): Inventory => ({ slots: [...inventory.slots, ...grid.slots] });
+  const applyAllSlots = (combined: Inventory) => {
+    onChange({ slots: combined.slots.slice(0, INVENTORY_SIZE) });
+    setGrid({ ...grid, slots: combined.slots.slice(INVENTORY_SIZE) });
+  };
+
+  const isGridSlot = (index: number) => index >= INVENTORY_SIZE;
+
+  const handleDrop = (index: number, ctrlKey: boolean) => {
+    if (!dragged) return;
+
+    if ('type' in dragged) {
+      applyAllSlots(setSlot(allSlots(), index, createItemStack(dragged.type, getMaxStackSize(dragged.type))));
+    } else {
+      const combined = allSlots();
+      const source = combined.slots[dragged.slot];
+      const count = ctrlKey && source ? Math.ceil(source.count / 2) : undefined;
+      applyAllSlots(moveStack(combined, dragged.slot, index, count));
+    }
+    setDragged(null);
+  };
+
+  // Shift-click: inventory stacks swap sides of the hotbar, grid stacks go back to the inventory
+  const handleQuickMove = (index: number) => {
+    if (!isGridSlot(index)) {
+      onChange(quickMove(inventory, index));
+      return;
+    }
+
+    const stack = grid.slots[index - INVENTORY_SIZE];
+    if (!stack) return;
+
+    const { inventory: added, remaining } = addStack(inventory, stack);
+    onChange(added);
+    setGrid(current => ({
+      ...current,
+      slots: current.slots.map((slot, i) => (i === index - INVENTORY_SIZE ? (remaining > 0 ? { ...stack, count: remaining } : null) : slot))
+    }));
+  };
+
+  const handleCraft = (repeat: boolean) => {
+    let current = { grid, inventory };
+    const initialResult = craftingResult?.type;
+
+    for (let i = 0; i < (repeat ? MAX_CRAFTS_AT_ONCE : 1); i++) {
+      const crafted = craftItem(current.grid, current.inventory);
+      if (!crafted) break;
+      current = crafted;
+      // Stop once what's left in the grid makes something else
+      if (getCraftingResult(current.grid)?.type !== initialResult) break;
+    }
+
+    onChange(current.inventory);
+    setGrid(current.grid);
+  };
+
+  const handleSelectRecipe = (recipe: Recipe) => {
+    const filled = fillGridWithRecipe(recipe, grid, inventory);
+    if (!filled) return;
+
+    onChange(filled.inventory);
+    setGrid(filled.grid);
+  };
+
+  const renderSlot = (index: number) => {
+    const stack = isGridSlot(index) ? grid.slots[index - INVENTORY_SIZE] : inventory.slots[index];
+
+    return (
+      <ItemSlot
+        key={index}
+        className={`inventory-slot ${dragged && 'slot' in dragged && dragged.slot === index ? 'dragging' : ''}`}
+        stack={stack}
+        showCount={showCounts}
+        draggable={stack !== null}
+        onDragStart={e => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDragged({ slot: index });
+        }}
+        onDragEnd={() => setDragged(null)}
+        onDragOver={e => {
+          if (dragged) e.preventDefault();
+        }}
+        onDrop={e => {
+          e.preventDefault();
+          handleDrop(index, e.ctrlKey);
+        }}
+        onClick={e => {
+          if (e.shiftKey) handleQuickMove(index);
+        }}
+        onContextMenu={e => {
+          e.preventDefault();
+          applyAllSlots(splitStack(allSlots(), index));
+        }}
+      />
+    );
+  };
+
+  return (
+    <div className="inventory-overlay" onClick={e => e.target === e.currentTarget && onClose()}>
+      <div className="inventory-panel">
+        {showRecipeBook && (
+          <RecipeBook inventory={inventory} gridSize={grid.size} onSelectRecipe={handleSelectRecipe} />
+        )}
+        <div className="inventory-main">
+          {blockPalette && (
+            <>
+              <h2>Items</h2>
+              <div className="inventory-grid block-palette">
+                {ITEM_TYPES.map(type => (
+                  <ItemSlot
+                    key={type}
+                    className="inventory-slot"
+                    stack={{ type, count: 1 }}
+                    draggable={true}
+                    onDragStart={e => {
+                      e.dataTransfer.effectAllowed = 'copy';
+                      setDragged({ type });
+                    }}
+                    onDragEnd={() => setDragged(null)}
+                    onClick={() => onChange(setSlot(inventory, selectedSlot, createItemStack(type, getMaxStackSize(type))))}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+          <div className="crafting-header">
+            <h2>{grid.size >= TABLE_CRAFTING_SIZE ? 'Crafting table' : 'Crafting'}</h2>
+            <button className="recipe-book-toggle" onClick={() => setShowRecipeBook(prev => !prev)}>
+              {showRecipeBook ? 'Hide recipes' : 'Recipes'}
+            </button>
+          </div>
+          <div className="crafting-area">
+            <div className="crafting-grid" style={{ gridTemplateColumns: `repeat(${grid.size}, 44px)` }}>
+              {range(INVENTORY_SIZE, INVENTORY_SIZE + grid.slots.length).map(renderSlot)}
+            </div>
+            <span className="crafting-arrow">→</span>
+            <ItemSlot
+              className={`inventory-slot crafting-output ${craftingResult ? '' : 'empty'}`}
+              stack={craftingResult}
+              onClick={e => craftingResult && handleCraft(e.shiftKey)}
+            />
+          </div>
+          <h2>Inventory</h2>
+          <div className="inventory-grid">
+            {range(HOTBAR_SIZE, INVENTORY_SIZE).map(renderSlot)}
+          </div>
+          <div className="inventory-grid inventory-hotbar">
+            {range(0, HOTBAR_SIZE).map(renderSlot)}
+          </div>
+          <p className="inventory-help">
+            Drag to move (Ctrl for half) · Shift-click to move to or from the hotbar · Right-click to split · Shift-click the output to craft all · E to close
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryScreen;
@@ -0,0 +1,33 @@
+import { InventorySlot } from '../../utils/inventory';
+import { getItemName, getMaxDurability } from '../../utils/items';
+import './ItemSlot.css';
+
+interface ItemSlotProps extends React.HTMLAttributes<HTMLDivElement> {
+  stack: InventorySlot;
+  // Counts mean nothing when items are never used up
+  showCount?: boolean;
+}
+
+// One slot of the hotbar or the inventory screen, the item's icon with its count, or how worn it is
+const ItemSlot: React.FC<ItemSlotProps> = ({ stack, showCount = true, className, ...props }) => {
+  const maxDurability = stack ? getMaxDurability(stack.type) : null;
+  const wear = stack?.durability !== undefined && maxDurability ? stack.durability / maxDurability : 1;
+
+  return (
+    <div className={`item-slot ${className ?? ''}`} title={stack ? getItemName(stack.type) : undefined} {...props}>
+      {stack && (
+        <>
+          <img src={`/resources/icons/${stack.type}.png`} alt={getItemName(stack.type)} draggable={false} />
+          {showCount && stack.count > 1 && <span className="item-count">{stack.count}</span>}
+          {wear < 1 && (
+            <div className="item-durability">
+              <div style={{ width: `${wear * 100}%`, backgroundColor: `hsl(${wear * 120}, 80%, 45%)` }} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ItemSlot;
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { RECIPES, Recipe, getRecipeIngredients } from '../../utils/crafting';
+import { Inventory, countItem } from '../../utils/inventory';
+import { getItemName } from '../../utils/items';
+import ItemSlot from './ItemSlot';
+import './RecipeBook.css';
+
+interface RecipeBookProps {
+  inventory: Inventory;
+  // Side of the open crafting grid, larger recipes are listed but can't be picked
+  gridSize: number;
+  onSelectRecipe: (recipe: Recipe) => void;
+}
+
+// Whether a recipe fits the grid and the inventory holds all of its ingredients
+const canCraft = (recipe: Recipe, inventory: Inventory, gridSize: number): boolean => {
+  if (recipe.gridSize > gridSize) return false;
+  return [...getRecipeIngredients(recipe)].every(([item, count]) => countItem(inventory, item) >= count);
+};
+
+// Describe a recipe's ingredients for its tooltip, '3 Planks, 2 Stick'
+const describeIngredients = (recipe: Recipe): string => {
+  return [...getRecipeIngredients(recipe)].map(([item, count]) => `${count} ${getItemName(item)}`).join(', ');
+};
+
+/**
+ * Every recipe, searchable by the name of what it makes. Picking one lays it out in the
+ * crafting grid from the inventory, recipes that can't be made right now are greyed out.
+ */
+const RecipeBook: React.FC<RecipeBookProps> = ({ inventory, gridSize, onSelectRecipe }) => {
+  const [search, setSearch] = useState('');
+
+  const query = search.trim().toLowerCase();
+  const recipes = RECIPES.filter(recipe => getItemName(recipe.result.item).toLowerCase().includes(query));
+
+  return (
+    <div className="recipe-book">
+      <h2>Recipes</h2>
+      <input
+        className="recipe-search"
+        type="text"
+        placeholder="Search..."
+        value={search}
+        onChange={e => setSearch(e.target.value)}
+        // Typing shouldn't reach the game's key bindings, Escape still closes the screen
+        onKeyDown={e => e.key !== 'Escape' && e.stopPropagation()}
+      />
+      <div className="recipe-list">
+        {recipes.map(recipe => {
+          const available = canCraft(recipe, inventory, gridSize);
+          const needsTable = recipe.gridSize > gridSize ? ' (needs a crafting table)' : '';
+
+          return (
+            <ItemSlot
+              key={recipe.id}
+              className={`inventory-slot ${available ? '' : 'unavailable'}`}
+              stack={{ type: recipe.result.item, count: recipe.result.count }}
+              title={`${getItemName(recipe.result.item)}: ${describeIngredients(recipe)}${needsTable}`}
+              onClick={() => available && onSelectRecipe(recipe)}
+            />
+          );
+        })}
+        {recipes.length === 0 && <p className="recipe-none">No recipes found</p>}
+      </div>
+    </div>
+  );
+};
+
+export default RecipeBook;
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { BlockType } from '../../utils/types';
+import { BLOCK_TYPES } from '../../utils/blocks';
+import {
+  DEFAULT_FLAT_LAYERS,
+  DEFAULT_HEIGHT_SCALE,
+  DEFAULT_ISLAND_RADIUS,
+  FlatLayer,
+  WORLD_TYPES,
+  WorldOptions,
+  WorldType
+} from '../../utils/worldTypes';
+import { WorldLimits, getDefaultWorldLimits } from '../../utils/worldLimits';
+import './WorldCreation.css';
+
+interface WorldCreationProps {
+  onCreateWorld: (seed: string, worldType: WorldType, worldOptions: WorldOptions, worldLimits: WorldLimits) => void;
+  creating: boolean;
+}
+
+const MAX_FLAT_LAYERS = 16;
+const MAX_LAYER_THICKNESS = 64;
+
+// Border sizes on offer, pre-generating keeps every chunk inside it in memory
+const MIN_BORDER_RADIUS = 32;
+const MAX_BORDER_RADIUS = 256;
+const DEFAULT_BORDER_RADIUS = 128;
+
+const WorldCreation: React.FC<WorldCreationProps> = ({ onCreateWorld, creating }) => {
+  const [seed, setSeed] = useState('');
+  const [worldType, setWorldType] = useState<WorldType>('default');
+  const [layers, setLayers] = useState<FlatLayer[]>(DEFAULT_FLAT_LAYERS);
+  const [heightScale, setHeightScale] = useState(DEFAULT_HEIGHT_SCALE);
+  const [islandRadius, setIslandRadius] = useState(DEFAULT_ISLAND_RADIUS);
+  const [hasBorder, setHasBorder] = useState(false);
+  const [borderRadius, setBorderRadius] = useState(DEFAULT_BORDER_RADIUS);
+  const [pregenerate, setPregenerate] = useState(false);
+
+  const updateLayer = (index: number, layer: Partial<FlatLayer>) => {
+    setLayers(prev => prev.map((existing, i) => (i === index ? { ...existing, ...layer } : existing)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Only the options of the chosen type are stored with the world
+    const options: WorldOptions = {};
+    if (worldType === 'superflat') options.layers = layers;
+    if (worldType === 'amplified') options.heightScale = heightScale;
+    if (worldType === 'island') options.islandRadius = islandRadius;
+
+    const limits: WorldLimits = {
+      ...getDefaultWorldLimits(worldType),
+      borderRadius: hasBorder ? borderRadius : null,
+      pregenerate: hasBorder && pregenerate
+    };
+
+    onCreateWorld(seed.trim() || Math.random().toString(36).substring(2, 15), worldType, options, limits);
+  };
+
+  return (
+    <div className="world-creation">
+      <form className="world-creation-panel" onSubmit={handleSubmit}>
+        <h1>Create World</h1>
+
+        <label>
+          Seed
+          <input
+            type="text"
+            value={seed}
+            placeholder="Leave empty for a random seed"
+            onChange={e => setSeed(e.target.value)}
+          />
+        </label>
+
+        <div className="world-type-list">
+          {(Object.keys(WORLD_TYPES) as WorldType[]).map(type => (
+            <button
+              key={type}
+              type="button"
+              className={`world-type ${type === worldType ? 'selected' : ''}`}
+              onClick={() => setWorldType(type)}
+            >
+              <strong>{WORLD_TYPES[type].name}</strong>
+              <span>{WORLD_TYPES[type].description}</span>
+            </button>
+          ))}
+        </div>
+
+        {worldType === 'superflat' && (
+          <div className="world-options">
+            <p>Layers, from the bottom up</p>
+            {layers.map((layer, index) => (
+              <div key={index} className="flat-layer">
+                <select value={layer.type} onChange={e => updateLayer(index, { type: e.target.value as BlockType })}>
+                  {BLOCK_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_LAYER_THICKNESS}
+                  value={layer.thickness}
+                  onChange={e => updateLayer(index, { thickness: Math.max(1, Math.min(MAX_LAYER_THICKNESS, Number(e.target.value) || 1)) })}
+                />
+                <button type="button" onClick={() => setLayers(prev => prev.filter((_, i) => i !== index))} disabled={layers.length <= 1}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setLayers(prev => [...prev, { type: 'stone', thickness: 1 }])}
+              disabled={layers.length >= MAX_FLAT_LAYERS}
+            >
+              Add layer
+            </button>
+          </div>
+        )}
+
+        {worldType === 'amplified' && (
+          <label className="world-options">
+            Height scale: {heightScale.toFixed(1)}
+            <input type="range" min={1.5} max={4} step={0.1} value={heightScale} onChange={e => setHeightScale(Number(e.target.value))} />
+          </label>
+        )}
+
+        {worldType === 'island' && (
+          <label className="world-options">
+            Island radius: {islandRadius}
+            <input type="range" min={16} max={96} step={4} value={islandRadius} onChange={e => setIslandRadius(Number(e.target.value))} />
+          </label>
+        )}
+
+        <div className="world-options">
+          <label className="world-option-toggle">
+            <input type="checkbox" checked={hasBorder} onChange={e => setHasBorder(e.target.checked)} />
+            World border
+          </label>
+          {hasBorder && (
+            <>
+              <label>
+                Border size: {borderRadius * 2} x {borderRadius * 2} blocks
+                <input
+                  type="range"
+                  min={MIN_BORDER_RADIUS}
+                  max={MAX_BORDER_RADIUS}
+                  step={16}
+                  value={borderRadius}
+                  onChange={e => setBorderRadius(Number(e.target.value))}
+                />
+              </label>
+              <label className="world-option-toggle">
+                <input type="checkbox" checked={pregenerate} onChange={e => setPregenerate(e.target.checked)} />
+                Pre-generate every chunk inside the border
+              </label>
+            </>
+          )}
+        </div>
+
+        <button type="submit" className="create-button" disabled={creating}>
+          {creating ? 'Creating...' : 'Create World'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default WorldCreation;
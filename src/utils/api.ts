@@ -1,5 +1,8 @@
 import axios from 'axios';
-import { BlockChange, WorldData } from './types';
+import { BlockChange, PlayerData, WorldData } from './types';
+import { WorldOptions, WorldType } from './worldTypes';
+import { CURRENT_GENERATOR_VERSION } from './noise';
+import { WorldLimits, getDefaultWorldLimits } from './worldLimits';
 
 const API_URL = 'http://localhost:8000/api';
 
@@ -10,15 +13,32 @@ const api = axios.create({
   },
 });
 
+// Worlds saved before limits were stored get the defaults of their type
+const withWorldLimits = (world: WorldData): WorldData => ({
+  ...world,
+  world_limits: world.world_limits ?? getDefaultWorldLimits(world.world_type)
+});
+
 // World API functions
-export const createWorld = async (seed: string): Promise<WorldData> => {
-  const response = await api.post('/world', { seed });
-  return response.data;
+export const createWorld = async (
+  seed: string,
+  worldType: WorldType = 'default',
+  worldOptions: WorldOptions = {},
+  worldLimits: WorldLimits = getDefaultWorldLimits(worldType)
+): Promise<WorldData> => {
+  const response = await api.post('/world', {
+    seed,
+    world_type: worldType,
+    world_options: worldOptions,
+    world_limits: worldLimits,
+    generator_version: CURRENT_GENERATOR_VERSION
+  });
+  return withWorldLimits(response.data);
 };
 
 export const getWorld = async (worldId: number): Promise<WorldData> => {
   const response = await api.get(`/world/${worldId}`);
-  return response.data;
+  return withWorldLimits(response.data);
 };
 
 export const updateWorldChanges = async (worldId: number, changes: BlockChange[]): Promise<WorldData> => {
@@ -26,4 +46,9 @@ export const updateWorldChanges = async (worldId: number, changes: BlockChange[]
   return response.data;
 };
 
+export const updatePlayer = async (worldId: number, player: PlayerData): Promise<WorldData> => {
+  const response = await api.put(`/world/${worldId}/player`, player);
+  return response.data;
+};
+
 export default api; 
\ No newline at end of file
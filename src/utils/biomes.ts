@@ -0,0 +1,187 @@
+import { BlockType } from './types';
+
+export type BiomeId = 'ocean' | 'beach' | 'plains' | 'forest' | 'desert' | 'tundra' | 'mountains';
+
+export type TreeShape = 'oak' | 'birch' | 'pine';
+
+// Climate at a column, each field is low-frequency noise in the range -1 to 1
+export interface Climate {
+  temperature: number;
+  humidity: number;
+  // How far inland a column is, low values are sea and high values mountain ranges
+  continentalness: number;
+}
+
+export interface Biome {
+  id: BiomeId;
+  name: string;
+  // Climate this biome is centered on, fields left out don't affect it. Null for biomes
+  // placed by terrain height instead of climate.
+  climate: Partial<Climate> | null;
+  // Terrain height is baseHeight plus heightVariation times the detail noise (-1 to 1)
+  baseHeight: number;
+  heightVariation: number;
+  surfaceBlock: BlockType;
+  subsurfaceBlock: BlockType;
+  // Layers of subsurface block between the surface and stone
+  subsurfaceDepth: number;
+  // Chance per column of a tree growing here, and the shapes it picks from
+  featureDensity: number;
+  trees: TreeShape[];
+  // Chance per column of a bush or tall grass
+  plantDensity: number;
+}
+
+export const BIOMES: Record<BiomeId, Biome> = {
+  ocean: {
+    id: 'ocean',
+    name: 'Ocean',
+    climate: { continentalness: -0.7 },
+    baseHeight: 4,
+    heightVariation: 3,
+    surfaceBlock: 'sand',
+    subsurfaceBlock: 'sand',
+    subsurfaceDepth: 3,
+    featureDensity: 0,
+    trees: [],
+    plantDensity: 0
+  },
+  beach: {
+    id: 'beach',
+    name: 'Beach',
+    climate: null,
+    baseHeight: 12,
+    heightVariation: 1,
+    surfaceBlock: 'sand',
+    subsurfaceBlock: 'sand',
+    subsurfaceDepth: 3,
+    featureDensity: 0,
+    trees: [],
+    plantDensity: 0
+  },
+  plains: {
+    id: 'plains',
+    name: 'Plains',
+    climate: { temperature: 0.1, humidity: -0.1, continentalness: 0.1 },
+    baseHeight: 15,
+    heightVariation: 3,
+    surfaceBlock: 'grass',
+    subsurfaceBlock: 'dirt',
+    subsurfaceDepth: 3,
+    featureDensity: 0.005,
+    trees: ['oak'],
+    plantDensity: 0.12
+  },
+  forest: {
+    id: 'forest',
+    name: 'Forest',
+    climate: { temperature: 0.2, humidity: 0.6, continentalness: 0.1 },
+    baseHeight: 16,
+    heightVariation: 5,
+    surfaceBlock: 'grass',
+    subsurfaceBlock: 'dirt',
+    subsurfaceDepth: 3,
+    featureDensity: 0.04,
+    trees: ['oak', 'oak', 'birch'],
+    plantDensity: 0.08
+  },
+  desert: {
+    id: 'desert',
+    name: 'Desert',
+    climate: { temperature: 0.7, humidity: -0.6, continentalness: 0.1 },
+    baseHeight: 15,
+    heightVariation: 4,
+    surfaceBlock: 'sand',
+    subsurfaceBlock: 'sand',
+    subsurfaceDepth: 4,
+    featureDensity: 0,
+    trees: [],
+    plantDensity: 0
+  },
+  tundra: {
+    id: 'tundra',
+    name: 'Tundra',
+    climate: { temperature: -0.7, continentalness: 0.1 },
+    baseHeight: 16,
+    heightVariation: 4,
+    surfaceBlock: 'snow',
+    subsurfaceBlock: 'dirt',
+    subsurfaceDepth: 3,
+    featureDensity: 0.01,
+    trees: ['pine'],
+    plantDensity: 0.02
+  },
+  mountains: {
+    id: 'mountains',
+    name: 'Mountains',
+    climate: { continentalness: 0.95 },
+    baseHeight: 30,
+    heightVariation: 14,
+    surfaceBlock: 'stone',
+    subsurfaceBlock: 'stone',
+    subsurfaceDepth: 1,
+    featureDensity: 0.004,
+    trees: ['pine'],
+    plantDensity: 0.01
+  },
+};
+
+// Biomes chosen by climate, the rest are placed by the generator
+const BIOME_LIST = Object.values(BIOMES).filter(biome => biome.climate !== null);
+
+// Temperature and humidity count for less than continentalness, so coasts and
+// mountain ranges follow the continent shape rather than the weather
+const FIELD_WEIGHTS: Record<keyof Climate, number> = {
+  temperature: 0.5,
+  humidity: 0.5,
+  continentalness: 1
+};
+
+// Width of the climate band over which neighbouring biomes blend into each other
+const BLEND_WIDTH = 0.2;
+
+const getClimateDistance = (climate: Climate, biome: Biome): number => {
+  let distance = 0;
+  for (const field of ['temperature', 'humidity', 'continentalness'] as const) {
+    const center = biome.climate?.[field];
+    if (center !== undefined) distance += FIELD_WEIGHTS[field] * (climate[field] - center) ** 2;
+  }
+  return Math.sqrt(distance);
+};
+
+// Biome whose climate is closest
+export const selectBiome = (climate: Climate): Biome => {
+  let closest = BIOME_LIST[0];
+  let closestDistance = Infinity;
+
+  for (const biome of BIOME_LIST) {
+    const distance = getClimateDistance(climate, biome);
+    if (distance < closestDistance) {
+      closest = biome;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+};
+
+/**
+ * Influence of each biome on a column, summing to 1. Biomes further from the climate
+ * than the closest one fade out over BLEND_WIDTH, so values blended with these weights
+ * change smoothly across biome borders.
+ */
+export const getBiomeWeights = (climate: Climate): Array<{ biome: Biome; weight: number }> => {
+  const distances = BIOME_LIST.map(biome => getClimateDistance(climate, biome));
+  const closestDistance = Math.min(...distances);
+
+  const weights = BIOME_LIST
+    .map((biome, index) => ({ biome, weight: Math.max(0, 1 - (distances[index] - closestDistance) / BLEND_WIDTH) ** 2 }))
+    .filter(entry => entry.weight > 0);
+
+  const total = weights.reduce((sum, entry) => sum + entry.weight, 0);
+  weights.forEach(entry => {
+    entry.weight /= total;
+  });
+
+  return weights;
+};
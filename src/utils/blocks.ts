@@ -0,0 +1,87 @@
+import { BlockType } from './types';
+import type { ToolTier, ToolType } from './mining';
+
+// How a block is drawn: a full cube, or two crossed quads (torches, plants)
+export type BlockShape = 'cube' | 'cross';
+
+// Properties shared by every block of a given type
+export interface BlockProperties {
+  // Neighbouring faces stay visible and light passes through this block
+  transparent: boolean;
+  shape: BlockShape;
+  // Bodies collide with this block, non-solid blocks can be walked through
+  solid: boolean;
+  // Block light level emitted (0-15)
+  lightEmission: number;
+  // How long the block takes to mine, 0 breaks at once and Infinity never does
+  hardness: number;
+  // Tool that mines this block faster
+  preferredTool: ToolType | null;
+  // Lowest tier of the preferred tool that makes the block drop anything, null drops by hand
+  harvestTier: ToolTier | null;
+  // Placing a block here replaces this one, like fluids and plants
+  replaceable: boolean;
+}
+
+export const BLOCK_PROPERTIES: Record<BlockType, BlockProperties> = {
+  dirt: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 0.5, preferredTool: 'shovel', harvestTier: null, replaceable: false },
+  grass: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 0.6, preferredTool: 'shovel', harvestTier: null, replaceable: false },
+  stone: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 1.5, preferredTool: 'pickaxe', harvestTier: 'wooden', replaceable: false },
+  wood: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 2, preferredTool: 'axe', harvestTier: null, replaceable: false },
+  leaves: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 0.2, preferredTool: null, harvestTier: null, replaceable: false },
+  brick: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 2, preferredTool: 'pickaxe', harvestTier: 'wooden', replaceable: false },
+  sand: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 0.5, preferredTool: 'shovel', harvestTier: null, replaceable: false },
+  glass: { transparent: true, shape: 'cube', solid: true, lightEmission: 0, hardness: 0.3, preferredTool: null, harvestTier: null, replaceable: false },
+  water: { transparent: true, shape: 'cube', solid: false, lightEmission: 0, hardness: Infinity, preferredTool: null, harvestTier: null, replaceable: true },
+  torch: { transparent: true, shape: 'cross', solid: false, lightEmission: 14, hardness: 0, preferredTool: null, harvestTier: null, replaceable: false },
+  lamp: { transparent: false, shape: 'cube', solid: true, lightEmission: 15, hardness: 0.3, preferredTool: null, harvestTier: null, replaceable: false },
+  snow: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 0.2, preferredTool: 'shovel', harvestTier: null, replaceable: false },
+  tall_grass: { transparent: true, shape: 'cross', solid: false, lightEmission: 0, hardness: 0, preferredTool: null, harvestTier: null, replaceable: true },
+  lava: { transparent: false, shape: 'cube', solid: false, lightEmission: 15, hardness: Infinity, preferredTool: null, harvestTier: null, replaceable: true },
+  coal_ore: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 3, preferredTool: 'pickaxe', harvestTier: 'wooden', replaceable: false },
+  iron_ore: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 3, preferredTool: 'pickaxe', harvestTier: 'stone', replaceable: false },
+  gold_ore: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 3, preferredTool: 'pickaxe', harvestTier: 'iron', replaceable: false },
+  diamond_ore: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 3, preferredTool: 'pickaxe', harvestTier: 'iron', replaceable: false },
+  gravel: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 0.6, preferredTool: 'shovel', harvestTier: null, replaceable: false },
+  clay: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 0.6, preferredTool: 'shovel', harvestTier: null, replaceable: false },
+  bedrock: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: Infinity, preferredTool: null, harvestTier: null, replaceable: false },
+  crafting_table: { transparent: false, shape: 'cube', solid: true, lightEmission: 0, hardness: 2.5, preferredTool: 'axe', harvestTier: null, replaceable: false },
+};
+
+// Registry order defines the numeric block ids used in voxel volumes (0 is air)
+export const BLOCK_TYPES = Object.keys(BLOCK_PROPERTIES) as BlockType[];
+
+export const AIR_ID = 0;
+
+const blockIds = new Map<BlockType, number>(BLOCK_TYPES.map((type, index) => [type, index + 1]));
+
+// Lookup tables indexed by block id, avoid map lookups in hot meshing and lighting loops
+export const TRANSPARENT_BY_ID: boolean[] = [true, ...BLOCK_TYPES.map(type => BLOCK_PROPERTIES[type].transparent)];
+export const CROSS_SHAPE_BY_ID: boolean[] = [false, ...BLOCK_TYPES.map(type => BLOCK_PROPERTIES[type].shape === 'cross')];
+
+export const getBlockId = (type: BlockType | null | undefined): number => {
+  if (!type) return AIR_ID;
+  return blockIds.get(type) ?? AIR_ID;
+};
+
+export const getBlockTypeById = (id: number): BlockType | null => {
+  if (id === AIR_ID) return null;
+  return BLOCK_TYPES[id - 1] ?? null;
+};
+
+export const isTransparent = (type: BlockType | null): boolean => {
+  return type === null || BLOCK_PROPERTIES[type].transparent;
+};
+
+export const getLightEmission = (type: BlockType | null): number => {
+  return type === null ? 0 : BLOCK_PROPERTIES[type].lightEmission;
+};
+
+export const isSolid = (type: BlockType | null): boolean => {
+  return type !== null && BLOCK_PROPERTIES[type].solid;
+};
+
+// Whether a block can be placed where this one is, air always can
+export const isReplaceable = (type: BlockType | null): boolean => {
+  return type === null || BLOCK_PROPERTIES[type].replaceable;
+};
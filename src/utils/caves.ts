@@ -0,0 +1,69 @@
+import { NoiseFunction2D, NoiseFunction3D } from 'simplex-noise';
+import { BlockType } from './types';
+
+// Nothing below this height is carved
+export const MIN_CAVE_Y = -64;
+
+// Carved space at or below this height fills with lava
+export const LAVA_LEVEL = -40;
+
+// Carved space at or below this height fills with water inside aquifer regions
+export const AQUIFER_LEVEL = 0;
+
+// Rock left above tunnels, except where an entrance lets them break the surface
+const SURFACE_CRUST = 5;
+
+// Caverns stay this far below the surface
+const CAVERN_DEPTH = 10;
+
+// Tunnels follow where two noise fields both cross zero, the thresholds set their width
+const TUNNEL_WIDTH = 0.08;
+const CAVERN_THRESHOLD = 0.62;
+const ENTRANCE_THRESHOLD = 0.45;
+const AQUIFER_THRESHOLD = 0.4;
+
+// Noise fields used for carving, each with its own permutation
+export interface CaveNoise {
+  tunnelA: NoiseFunction3D;
+  tunnelB: NoiseFunction3D;
+  cavern: NoiseFunction3D;
+  entrance: NoiseFunction2D;
+  aquifer: NoiseFunction2D;
+}
+
+/**
+ * Carves worm-like tunnels and large caverns out of the terrain with 3D noise.
+ * Deep caves flood with lava and some regions hold underground water.
+ */
+export class CaveCarver {
+  private noise: CaveNoise;
+
+  constructor(noise: CaveNoise) {
+    this.noise = noise;
+  }
+
+  // Whether a position under the surface is hollowed out by a cave
+  public isCarved(x: number, y: number, z: number, surfaceHeight: number, waterLevel: number): boolean {
+    if (y < MIN_CAVE_Y || y > surfaceHeight) return false;
+
+    // Large open caverns, flattened so they have floors to walk on
+    if (y <= surfaceHeight - CAVERN_DEPTH && this.noise.cavern(x * 0.012, y * 0.024, z * 0.012) > CAVERN_THRESHOLD) {
+      return true;
+    }
+
+    // Entrances never open under water, the sea or lake would have to drain into them
+    const isEntrance = surfaceHeight > waterLevel && this.noise.entrance(x * 0.01, z * 0.01) > ENTRANCE_THRESHOLD;
+    const crust = isEntrance ? 0 : SURFACE_CRUST;
+    if (y > surfaceHeight - crust) return false;
+
+    return Math.abs(this.noise.tunnelA(x * 0.025, y * 0.04, z * 0.025)) < TUNNEL_WIDTH &&
+      Math.abs(this.noise.tunnelB(x * 0.025, y * 0.04, z * 0.025)) < TUNNEL_WIDTH;
+  }
+
+  // What fills a carved position: lava deep down, water in aquifers, otherwise air
+  public getCaveFill(x: number, y: number, z: number): BlockType | null {
+    if (y <= LAVA_LEVEL) return 'lava';
+    if (y <= AQUIFER_LEVEL && this.noise.aquifer(x * 0.008, z * 0.008) > AQUIFER_THRESHOLD) return 'water';
+    return null;
+  }
+}
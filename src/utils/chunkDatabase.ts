@@ -0,0 +1,53 @@
+import { SerializedChunkStorage } from './chunkStorage';
+
+// Generated terrain kept in the browser, so pre-generated chunks don't have to stay in memory
+const DATABASE_NAME = 'generated-chunks';
+const DATABASE_VERSION = 1;
+const CHUNK_STORE = 'chunks';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(CHUNK_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again after a failure
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(database.transaction(CHUNK_STORE, mode).objectStore(CHUNK_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Chunks of every world share the store, keys start with the world id
+const getRecordKey = (worldId: number, chunkKey: string): string => `${worldId}:${chunkKey}`;
+
+// Terrain of a chunk as generated, before any block changes. Null if it was never saved.
+export const loadSavedChunk = async (worldId: number, chunkKey: string): Promise<SerializedChunkStorage | null> => {
+  const storage = await runRequest<SerializedChunkStorage | undefined>('readonly', store => store.get(getRecordKey(worldId, chunkKey)));
+  return storage ?? null;
+};
+
+export const saveChunk = async (worldId: number, chunkKey: string, storage: SerializedChunkStorage): Promise<void> => {
+  await runRequest('readwrite', store => store.put(storage, getRecordKey(worldId, chunkKey)));
+};
+
+// Keys of the chunks saved for a world
+export const getSavedChunkKeys = async (worldId: number): Promise<Set<string>> => {
+  const prefix = `${worldId}:`;
+  const recordKeys = await runRequest('readonly', store => store.getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+  return new Set(recordKeys.map(recordKey => String(recordKey).slice(prefix.length)));
+};
@@ -0,0 +1,125 @@
+import { BlockChange, ChunkData } from './types';
+import { WorldGenerator, WorldOptions, WorldType, createWorldGenerator } from './worldTypes';
+import { WorldLimits } from './worldLimits';
+import { CHUNK_SIZE } from './chunks';
+import { ChunkStorage, SerializedChunkStorage } from './chunkStorage';
+import { ChunkMeshData, MeshBuffers, buildChunkMesh } from './mesher';
+
+// Generate a chunk's terrain and apply the recorded block changes on top
+export interface GenerateChunkJob {
+  kind: 'generate';
+  seed: string;
+  worldType: WorldType;
+  worldOptions: WorldOptions;
+  generatorVersion: number;
+  worldLimits: WorldLimits;
+  chunkX: number;
+  chunkY: number;
+  chunkZ: number;
+  changes: BlockChange[];
+}
+
+// Build the mesh of a chunk from padded block and light volumes
+export interface MeshChunkJob {
+  kind: 'mesh';
+  volume: Uint8Array;
+  light: Uint8Array;
+  ambientOcclusion: boolean;
+}
+
+export type ChunkJob = GenerateChunkJob | MeshChunkJob;
+
+export interface GenerateChunkResult {
+  kind: 'generate';
+  storage: SerializedChunkStorage;
+}
+
+export interface MeshChunkResult {
+  kind: 'mesh';
+  mesh: ChunkMeshData;
+}
+
+export type ChunkJobResult = GenerateChunkResult | MeshChunkResult;
+
+export type ChunkJobResultFor<J extends ChunkJob> = J extends GenerateChunkJob ? GenerateChunkResult : MeshChunkResult;
+
+// Generators are reused between jobs for the same world
+const generators: Map<string, WorldGenerator> = new Map();
+
+const getGenerator = (job: GenerateChunkJob): WorldGenerator => {
+  const key = `${job.worldType}:${job.generatorVersion}:${job.seed}:${JSON.stringify(job.worldOptions)}:${JSON.stringify(job.worldLimits)}`;
+  let generator = generators.get(key);
+  if (!generator) {
+    generator = createWorldGenerator(job.seed, job.worldType, job.worldOptions, job.generatorVersion, job.worldLimits);
+    generators.set(key, generator);
+  }
+  return generator;
+};
+
+// Changes that fall inside a chunk, in the order they were made
+export const getChunkChanges = (changes: BlockChange[], chunkX: number, chunkY: number, chunkZ: number): BlockChange[] => {
+  const minX = chunkX * CHUNK_SIZE;
+  const minY = chunkY * CHUNK_SIZE;
+  const minZ = chunkZ * CHUNK_SIZE;
+
+  return changes.filter(change =>
+    change.x >= minX && change.x < minX + CHUNK_SIZE &&
+    change.y >= minY && change.y < minY + CHUNK_SIZE &&
+    change.z >= minZ && change.z < minZ + CHUNK_SIZE
+  );
+};
+
+const generateChunk = (job: GenerateChunkJob): GenerateChunkResult => {
+  const { chunkX, chunkY, chunkZ } = job;
+  const startX = chunkX * CHUNK_SIZE;
+  const startY = chunkY * CHUNK_SIZE;
+  const startZ = chunkZ * CHUNK_SIZE;
+
+  const { storage } = getGenerator(job).generateChunk(chunkX, chunkY, chunkZ, CHUNK_SIZE);
+  getChunkChanges(job.changes, chunkX, chunkY, chunkZ).forEach(change => {
+    storage.set(change.x - startX, change.y - startY, change.z - startZ, change.action === 'place' ? change.type : null);
+  });
+
+  return { kind: 'generate', storage: storage.serialize() };
+};
+
+// Run a job to completion, on a worker or on the main thread as a fallback
+export const runChunkJob = (job: ChunkJob): ChunkJobResult => {
+  if (job.kind === 'generate') {
+    return generateChunk(job);
+  }
+
+  return {
+    kind: 'mesh',
+    mesh: buildChunkMesh(job.volume, job.light, job.ambientOcclusion)
+  };
+};
+
+const getBufferTransferables = (buffers: MeshBuffers): Transferable[] => [
+  buffers.positions.buffer,
+  buffers.normals.buffer,
+  buffers.uvs.buffer,
+  buffers.tiles.buffer,
+  buffers.colors.buffer,
+  buffers.indices.buffer
+];
+
+// Buffers moved rather than copied when a result is posted back. Job inputs are small
+// and copied, so a job can still be rerun on the main thread if its worker fails.
+export const getResultTransferables = (result: ChunkJobResult): Transferable[] => {
+  if (result.kind === 'generate') return [result.storage.indices.buffer];
+  return [...getBufferTransferables(result.mesh.opaque), ...getBufferTransferables(result.mesh.transparent)];
+};
+
+// Rebuild a generated chunk from the storage posted back by a worker
+export const createChunkFromStorage = (
+  chunkX: number,
+  chunkY: number,
+  chunkZ: number,
+  storage: SerializedChunkStorage
+): ChunkData => {
+  return {
+    position: { x: chunkX, y: chunkY, z: chunkZ },
+    storage: ChunkStorage.deserialize(storage)
+  };
+};
@@ -0,0 +1,196 @@
+import { getChunkKey } from './chunks';
+
+// How far chunks are streamed around the player, in chunks
+export interface RenderDistance {
+  horizontal: number;
+  vertical: number;
+}
+
+export interface ChunkRequest {
+  x: number;
+  y: number;
+  z: number;
+  key: string;
+}
+
+interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Chunks stay loaded until they are this many chunks beyond the load distance,
+// so walking back and forth across a chunk border doesn't reload them
+const UNLOAD_MARGIN = 1;
+
+// Chunks behind the player cost up to this much more distance than chunks ahead
+const VIEW_DIRECTION_WEIGHT = 0.75;
+
+// Binary min-heap keyed by a number, lowest priority first
+class MinHeap<T> {
+  private items: T[] = [];
+  private priorities: number[] = [];
+
+  public get size(): number {
+    return this.items.length;
+  }
+
+  public clear(): void {
+    this.items = [];
+    this.priorities = [];
+  }
+
+  public push(item: T, priority: number): void {
+    this.items.push(item);
+    this.priorities.push(priority);
+
+    let index = this.items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  public pop(): T | undefined {
+    if (this.items.length === 0) return undefined;
+
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = lastItem;
+      this.priorities[0] = lastPriority;
+
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === index) break;
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+/**
+ * Decides which chunks to stream in around the player and in what order. Chunks are
+ * loaded within a cylinder (horizontal radius, vertical half height) and kept until
+ * they leave a slightly larger one. Missing chunks are handed out nearest first, with
+ * chunks in the view direction preferred over those behind the player.
+ */
+export class ChunkScheduler {
+  private renderDistance: RenderDistance;
+  private queue = new MinHeap<ChunkRequest>();
+
+  constructor(renderDistance: RenderDistance) {
+    this.renderDistance = renderDistance;
+  }
+
+  public setRenderDistance(renderDistance: RenderDistance): void {
+    this.renderDistance = renderDistance;
+  }
+
+  // Whether a chunk at this offset from the player's chunk should be loaded
+  public isInLoadRange(dx: number, dy: number, dz: number): boolean {
+    const { horizontal, vertical } = this.renderDistance;
+    return dx * dx + dz * dz <= horizontal * horizontal && Math.abs(dy) <= vertical;
+  }
+
+  // Whether an already loaded chunk at this offset should stay loaded
+  public isInKeepRange(dx: number, dy: number, dz: number): boolean {
+    const horizontal = this.renderDistance.horizontal + UNLOAD_MARGIN;
+    const vertical = this.renderDistance.vertical + UNLOAD_MARGIN;
+    return dx * dx + dz * dz <= horizontal * horizontal && Math.abs(dy) <= vertical;
+  }
+
+  /**
+   * Rebuild the load queue around a chunk. `needsLoading` filters out chunks that are
+   * already loaded or in progress, or outside the world. Returns the keys of every chunk in load range.
+   */
+  public update(center: Vec3, viewDirection: Vec3, needsLoading: (key: string, y: number) => boolean): Set<string> {
+    const { horizontal, vertical } = this.renderDistance;
+    const inRange = new Set<string>();
+    const viewLength = Math.hypot(viewDirection.x, viewDirection.y, viewDirection.z) || 1;
+
+    this.queue.clear();
+
+    for (let dx = -horizontal; dx <= horizontal; dx++) {
+      for (let dy = -vertical; dy <= vertical; dy++) {
+        for (let dz = -horizontal; dz <= horizontal; dz++) {
+          if (!this.isInLoadRange(dx, dy, dz)) continue;
+
+          const request = {
+            x: center.x + dx,
+            y: center.y + dy,
+            z: center.z + dz,
+            key: getChunkKey(center.x + dx, center.y + dy, center.z + dz)
+          };
+          inRange.add(request.key);
+          if (!needsLoading(request.key, request.y)) continue;
+
+          // Distance grows with how far the chunk is from the crosshair direction
+          const distance = Math.hypot(dx, dy, dz);
+          const alignment = distance > 0
+            ? (dx * viewDirection.x + dy * viewDirection.y + dz * viewDirection.z) / (distance * viewLength)
+            : 1;
+          this.queue.push(request, distance * (1 + VIEW_DIRECTION_WEIGHT * (1 - alignment) / 2));
+        }
+      }
+    }
+
+    return inRange;
+  }
+
+  // Highest priority chunk still waiting to be loaded
+  public next(): ChunkRequest | null {
+    return this.queue.pop() ?? null;
+  }
+
+  public get queuedCount(): number {
+    return this.queue.size;
+  }
+}
+
+// Mesh uploads waiting for time in a frame budget, run in the order they were scheduled
+const meshUploads: Array<{ upload: () => void; cancelled: boolean }> = [];
+
+// Queue work that turns a finished mesh into GPU geometry, returns a function that cancels it
+export const scheduleMeshUpload = (upload: () => void): (() => void) => {
+  const entry = { upload, cancelled: false };
+  meshUploads.push(entry);
+  return () => {
+    entry.cancelled = true;
+  };
+};
+
+// Run queued mesh uploads until the deadline (a performance.now() timestamp) passes.
+// At least one upload runs per call so a slow frame can't stall streaming entirely.
+export const flushMeshUploads = (deadline: number): number => {
+  let uploaded = 0;
+
+  while (meshUploads.length > 0) {
+    if (uploaded > 0 && performance.now() >= deadline) break;
+
+    const entry = meshUploads.shift()!;
+    if (entry.cancelled) continue;
+
+    entry.upload();
+    uploaded++;
+  }
+
+  return uploaded;
+};
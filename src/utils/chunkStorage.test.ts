@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { BlockType } from './types';
+import { CHUNK_SIZE } from './chunks';
+import { ChunkStorage } from './chunkStorage';
+
+// Made-up block types, the registry has far fewer than a two byte palette needs
+const fakeBlockType = (index: number) => `test_block_${index}` as BlockType;
+
+// Chunk-local position of the nth voxel in storage order
+const positionOf = (index: number): [number, number, number] => [
+  index % CHUNK_SIZE,
+  Math.floor(index / CHUNK_SIZE) % CHUNK_SIZE,
+  Math.floor(index / (CHUNK_SIZE * CHUNK_SIZE))
+];
+
+describe('ChunkStorage', () => {
+  it('starts as air', () => {
+    const storage = new ChunkStorage();
+
+    expect(storage.blockCount).toBe(0);
+    expect(storage.get(0, 0, 0)).toBeNull();
+    expect(storage.get(CHUNK_SIZE - 1, CHUNK_SIZE - 1, CHUNK_SIZE - 1)).toBeNull();
+  });
+
+  it('counts blocks that are not air', () => {
+    const storage = new ChunkStorage();
+    storage.set(0, 0, 0, 'stone');
+    storage.set(1, 0, 0, 'dirt');
+    storage.set(1, 0, 0, 'grass');
+    storage.set(2, 0, 0, null);
+    expect(storage.blockCount).toBe(2);
+
+    storage.set(0, 0, 0, null);
+    expect(storage.blockCount).toBe(1);
+    expect(storage.get(1, 0, 0)).toBe('grass');
+  });
+
+  it('widens its indices to two bytes past 256 palette entries', () => {
+    const storage = new ChunkStorage();
+    const types = Array.from({ length: 300 }, (_, index) => fakeBlockType(index));
+    types.forEach((type, index) => storage.set(...positionOf(index), type));
+
+    expect(storage.serialize().indices).toBeInstanceOf(Uint16Array);
+    expect(storage.blockCount).toBe(types.length);
+    types.forEach((type, index) => {
+      expect(storage.get(...positionOf(index))).toBe(type);
+    });
+  });
+
+  it('keeps one byte indices while the palette fits', () => {
+    const storage = new ChunkStorage();
+    storage.set(0, 0, 0, 'stone');
+
+    expect(storage.serialize().indices).toBeInstanceOf(Uint8Array);
+  });
+
+  it('round-trips through serialize and the constructor, sharing the indices', () => {
+    const storage = new ChunkStorage();
+    storage.set(3, 4, 5, 'lamp');
+    storage.set(15, 0, 7, 'water');
+
+    const serialized = storage.serialize();
+    const restored = new ChunkStorage(serialized);
+    expect(restored.get(3, 4, 5)).toBe('lamp');
+    expect(restored.get(15, 0, 7)).toBe('water');
+    expect(restored.blockCount).toBe(2);
+
+    // Same buffer, so changes show through until the original is discarded
+    expect(restored.serialize().indices).toBe(serialized.indices);
+    storage.set(3, 4, 5, null);
+    expect(restored.get(3, 4, 5)).toBeNull();
+  });
+
+  it('copies its indices when cloned', () => {
+    const storage = new ChunkStorage();
+    storage.set(1, 2, 3, 'stone');
+
+    const copy = storage.clone();
+    copy.set(1, 2, 3, 'dirt');
+    expect(storage.get(1, 2, 3)).toBe('stone');
+    expect(copy.get(1, 2, 3)).toBe('dirt');
+  });
+});
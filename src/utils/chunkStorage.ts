@@ -0,0 +1,110 @@
+import { BlockType } from './types';
+import { CHUNK_SIZE } from './chunks';
+
+const VOLUME = CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE;
+
+// Palettes up to this size index voxels with one byte, larger ones with two
+const MAX_BYTE_PALETTE = 256;
+
+// Plain data form of a chunk's blocks, can be posted between threads
+export interface SerializedChunkStorage {
+  palette: (BlockType | null)[];
+  indices: Uint8Array | Uint16Array;
+}
+
+/**
+ * Blocks of one chunk stored as a palette of block types plus one palette index per voxel.
+ * Positions are chunk-local (0 to CHUNK_SIZE - 1 on each axis), palette entry 0 is always air.
+ */
+export class ChunkStorage {
+  private palette: (BlockType | null)[];
+  private paletteLookup: Map<BlockType | null, number>;
+  private indices: Uint8Array | Uint16Array;
+  private nonAirCount: number;
+
+  constructor(serialized?: SerializedChunkStorage) {
+    this.palette = serialized ? [...serialized.palette] : [null];
+    this.paletteLookup = new Map(this.palette.map((type, index) => [type, index]));
+    this.indices = serialized ? serialized.indices : new Uint8Array(VOLUME);
+    this.nonAirCount = 0;
+
+    if (serialized) {
+      for (let i = 0; i < VOLUME; i++) {
+        if (this.palette[this.indices[i]] !== null) this.nonAirCount++;
+      }
+    }
+  }
+
+  public static index(x: number, y: number, z: number): number {
+    return x + y * CHUNK_SIZE + z * CHUNK_SIZE * CHUNK_SIZE;
+  }
+
+  public static isInside(x: number, y: number, z: number): boolean {
+    return x >= 0 && x < CHUNK_SIZE && y >= 0 && y < CHUNK_SIZE && z >= 0 && z < CHUNK_SIZE;
+  }
+
+  // Number of voxels that aren't air
+  public get blockCount(): number {
+    return this.nonAirCount;
+  }
+
+  public get(x: number, y: number, z: number): BlockType | null {
+    return this.palette[this.indices[ChunkStorage.index(x, y, z)]];
+  }
+
+  public set(x: number, y: number, z: number, type: BlockType | null): void {
+    const index = ChunkStorage.index(x, y, z);
+    const previous = this.palette[this.indices[index]];
+    if (previous === type) return;
+
+    // Look the index up first, a new palette entry may replace the indices array
+    const paletteIndex = this.getPaletteIndex(type);
+    this.indices[index] = paletteIndex;
+    if (previous === null) this.nonAirCount++;
+    else if (type === null) this.nonAirCount--;
+  }
+
+  // Visit every non-air voxel with its chunk-local position
+  public forEachBlock(callback: (x: number, y: number, z: number, type: BlockType) => void): void {
+    if (this.nonAirCount === 0) return;
+
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let y = 0; y < CHUNK_SIZE; y++) {
+        for (let x = 0; x < CHUNK_SIZE; x++) {
+          const type = this.palette[this.indices[ChunkStorage.index(x, y, z)]];
+          if (type !== null) callback(x, y, z, type);
+        }
+      }
+    }
+  }
+
+  // Independent copy, chunks are replaced rather than mutated once rendered
+  public clone(): ChunkStorage {
+    return new ChunkStorage({ palette: this.palette, indices: this.indices.slice() });
+  }
+
+  // The returned indices share memory with this storage until it is discarded
+  public serialize(): SerializedChunkStorage {
+    return { palette: [...this.palette], indices: this.indices };
+  }
+
+  public static deserialize(serialized: SerializedChunkStorage): ChunkStorage {
+    return new ChunkStorage(serialized);
+  }
+
+  private getPaletteIndex(type: BlockType | null): number {
+    const existing = this.paletteLookup.get(type);
+    if (existing !== undefined) return existing;
+
+    const index = this.palette.length;
+    this.palette.push(type);
+    this.paletteLookup.set(type, index);
+
+    // Widen the indices once the palette no longer fits in a byte
+    if (index === MAX_BYTE_PALETTE && this.indices instanceof Uint8Array) {
+      this.indices = Uint16Array.from(this.indices);
+    }
+
+    return index;
+  }
+}
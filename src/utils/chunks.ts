@@ -0,0 +1,14 @@
+// Chunk dimensions and coordinate helpers shared by the world, renderer and mesher
+export const CHUNK_SIZE = 16;
+
+// Generate a unique key for a chunk coordinate
+export const getChunkKey = (x: number, y: number, z: number): string => `${x},${y},${z}`;
+
+// Convert a world position to the coordinates of the chunk containing it
+export const getChunkCoords = (x: number, y: number, z: number) => {
+  return {
+    x: Math.floor(x / CHUNK_SIZE),
+    y: Math.floor(y / CHUNK_SIZE),
+    z: Math.floor(z / CHUNK_SIZE)
+  };
+};
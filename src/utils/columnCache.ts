@@ -0,0 +1,58 @@
+/**
+ * Sampled terrain columns grouped by chunk column, bounded to the most recently used chunk
+ * columns. A vertical stack of chunks, the features and ores placed in it and the collision
+ * queries around the player all read the same columns, so each one is sampled only once.
+ */
+export class ColumnCache<T> {
+  private chunkSize: number;
+  private maxChunkColumns: number;
+  private chunkColumns: Map<string, (T | undefined)[]> = new Map();
+  // Most queries in a row fall in the same chunk column, skip the map for those
+  private lastChunkX = 0;
+  private lastChunkZ = 0;
+  private lastColumns: (T | undefined)[] | null = null;
+
+  constructor(chunkSize: number, maxChunkColumns: number) {
+    this.chunkSize = chunkSize;
+    this.maxChunkColumns = maxChunkColumns;
+  }
+
+  // Cached value of a column, sampled with the given function the first time it's asked for
+  public get(x: number, z: number, sample: (x: number, z: number) => T): T {
+    const chunkX = Math.floor(x / this.chunkSize);
+    const chunkZ = Math.floor(z / this.chunkSize);
+    const columns = this.getChunkColumn(chunkX, chunkZ);
+    const index = (z - chunkZ * this.chunkSize) * this.chunkSize + x - chunkX * this.chunkSize;
+
+    let value = columns[index];
+    if (value === undefined) {
+      value = sample(x, z);
+      columns[index] = value;
+    }
+
+    return value;
+  }
+
+  private getChunkColumn(chunkX: number, chunkZ: number): (T | undefined)[] {
+    if (this.lastColumns && chunkX === this.lastChunkX && chunkZ === this.lastChunkZ) return this.lastColumns;
+
+    const key = `${chunkX},${chunkZ}`;
+
+    let columns = this.chunkColumns.get(key);
+    if (columns) {
+      // Move to the back, the front holds the least recently used chunk column
+      this.chunkColumns.delete(key);
+    } else {
+      columns = new Array(this.chunkSize * this.chunkSize);
+      if (this.chunkColumns.size >= this.maxChunkColumns) {
+        this.chunkColumns.delete(this.chunkColumns.keys().next().value!);
+      }
+    }
+    this.chunkColumns.set(key, columns);
+
+    this.lastChunkX = chunkX;
+    this.lastChunkZ = chunkZ;
+    this.lastColumns = columns;
+    return columns;
+  }
+}
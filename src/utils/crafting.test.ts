@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from './items';
+import { CraftingGrid, INVENTORY_CRAFTING_SIZE, TABLE_CRAFTING_SIZE, findRecipe, getCraftingResult } from './crafting';
+
+// Grid from rows of characters, one item per character and spaces for empty cells
+const createGrid = (size: number, rows: string[], key: Record<string, ItemType>): CraftingGrid => ({
+  size,
+  slots: Array.from({ length: size * size }, (_, index) => {
+    const char = rows[Math.floor(index / size)]?.[index % size] ?? ' ';
+    return char === ' ' ? null : { type: key[char], count: 1 };
+  })
+});
+
+const WOOD_KEY: Record<string, ItemType> = { P: 'planks', S: 'stick' };
+
+describe('findRecipe', () => {
+  it('matches a shaped recipe as written and mirrored', () => {
+    const written = createGrid(TABLE_CRAFTING_SIZE, ['PP ', 'PS ', ' S '], WOOD_KEY);
+    const mirrored = createGrid(TABLE_CRAFTING_SIZE, ['PP ', 'SP ', 'S  '], WOOD_KEY);
+
+    expect(findRecipe(written)?.id).toBe('wooden_axe');
+    expect(findRecipe(mirrored)?.id).toBe('wooden_axe');
+  });
+
+  it('does not match a shaped recipe turned upside down', () => {
+    const flipped = createGrid(TABLE_CRAFTING_SIZE, [' S ', 'PS ', 'PP '], WOOD_KEY);
+
+    expect(findRecipe(flipped)).toBeNull();
+  });
+
+  it('matches a 2x2 recipe anywhere in a 3x3 grid', () => {
+    const offset = createGrid(TABLE_CRAFTING_SIZE, ['   ', ' PP', ' PP'], WOOD_KEY);
+
+    expect(getCraftingResult(offset)).toEqual({ type: 'crafting_table', count: 1 });
+  });
+
+  it('matches a shapeless recipe with its items in any cells', () => {
+    const key: Record<string, ItemType> = { I: 'iron_ore', C: 'coal_ore', G: 'glass' };
+
+    expect(findRecipe(createGrid(INVENTORY_CRAFTING_SIZE, ['IC', '  '], key))?.id).toBe('iron_ingot');
+    expect(findRecipe(createGrid(TABLE_CRAFTING_SIZE, ['C  ', '   ', '  I'], key))?.id).toBe('iron_ingot');
+    expect(findRecipe(createGrid(TABLE_CRAFTING_SIZE, ['C  ', ' G ', '  I'], key))).toBeNull();
+  });
+
+  it('finds nothing in an empty grid', () => {
+    expect(findRecipe(createGrid(TABLE_CRAFTING_SIZE, [], {}))).toBeNull();
+  });
+});
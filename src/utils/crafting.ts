@@ -0,0 +1,240 @@
+import { ItemType, isItemType } from './items';
+import { Inventory, InventorySlot, ItemStack, addItem, addStack, removeItem } from './inventory';
+
+// Side of the grid on the inventory screen, and of the one a crafting table opens
+export const INVENTORY_CRAFTING_SIZE = 2;
+export const TABLE_CRAFTING_SIZE = 3;
+
+// Pattern character for a cell that has to stay empty
+const EMPTY_CHARACTER = ' ';
+
+interface RecipeResult {
+  item: ItemType;
+  count: number;
+}
+
+// Recipe with a fixed layout, it may be placed anywhere in the grid and mirrored
+interface ShapedRecipeFile {
+  type: 'shaped';
+  // Rows from top to bottom, one character per column
+  pattern: string[];
+  // Item for each character used in the pattern, spaces are empty cells
+  key: Record<string, ItemType>;
+  result: RecipeResult;
+}
+
+// Recipe whose ingredients can go in any cells
+interface ShapelessRecipeFile {
+  type: 'shapeless';
+  ingredients: ItemType[];
+  result: RecipeResult;
+}
+
+// Recipe as written in a data file under src/data/recipes
+export type RecipeFile = ShapedRecipeFile | ShapelessRecipeFile;
+
+export type Recipe = RecipeFile & {
+  id: string;
+  // Smallest crafting grid the recipe fits in
+  gridSize: number;
+  // Cells of the recipe laid out from the top left corner, row by row in a gridSize square
+  layout: (ItemType | null)[];
+};
+
+// Items in a crafting grid, row by row
+export interface CraftingGrid {
+  size: number;
+  slots: InventorySlot[];
+}
+
+const recipeFiles = import.meta.glob<RecipeFile>('../data/recipes/*.json', { eager: true, import: 'default' });
+
+// Check a recipe file and lay it out, null if it can't be used
+const parseRecipe = (path: string, file: RecipeFile): Recipe | null => {
+  const id = path.split('/').pop()!.replace(/\.json$/, '');
+
+  if (!isItemType(file.result.item) || file.result.count < 1) {
+    console.error(`[CRAFTING] Recipe ${id} has an unknown result ${file.result.item} x${file.result.count}`);
+    return null;
+  }
+
+  if (file.type === 'shapeless') {
+    const gridSize = Math.ceil(Math.sqrt(file.ingredients.length));
+    if (gridSize === 0 || gridSize > TABLE_CRAFTING_SIZE) {
+      console.error(`[CRAFTING] Recipe ${id} has ${file.ingredients.length} ingredients`);
+      return null;
+    }
+
+    const unknownItem = file.ingredients.find(item => !isItemType(item));
+    if (unknownItem) {
+      console.error(`[CRAFTING] Recipe ${id} uses unknown item ${unknownItem}`);
+      return null;
+    }
+
+    const layout = Array.from({ length: gridSize * gridSize }, (_, index) => file.ingredients[index] ?? null);
+    return { ...file, id, gridSize, layout };
+  }
+
+  const height = file.pattern.length;
+  const width = Math.max(0, ...file.pattern.map(row => row.length));
+  const gridSize = Math.max(width, height);
+  if (gridSize === 0 || gridSize > TABLE_CRAFTING_SIZE) {
+    console.error(`[CRAFTING] Recipe ${id} is ${width}x${height}, it has to fit a ${TABLE_CRAFTING_SIZE}x${TABLE_CRAFTING_SIZE} grid`);
+    return null;
+  }
+
+  const unknownItem = Object.values(file.key).find(item => !isItemType(item));
+  if (unknownItem) {
+    console.error(`[CRAFTING] Recipe ${id} uses unknown item ${unknownItem}`);
+    return null;
+  }
+
+  const unknownCharacter = file.pattern.join('').split('').find(char => char !== EMPTY_CHARACTER && !(char in file.key));
+  if (unknownCharacter) {
+    console.error(`[CRAFTING] Recipe ${id} uses character '${unknownCharacter}' missing from its key`);
+    return null;
+  }
+
+  const layout = Array.from({ length: gridSize * gridSize }, (_, index) => {
+    const char = file.pattern[Math.floor(index / gridSize)]?.[index % gridSize] ?? EMPTY_CHARACTER;
+    return char === EMPTY_CHARACTER ? null : file.key[char];
+  });
+  return { ...file, id, gridSize, layout };
+};
+
+/**
+ * Recipes from the data files, sorted by id. New recipes only need a new file in
+ * src/data/recipes.
+ */
+export const RECIPES: Recipe[] = Object.entries(recipeFiles)
+  .map(([path, file]) => parseRecipe(path, file))
+  .filter((recipe): recipe is Recipe => recipe !== null)
+  .sort((a, b) => a.id.localeCompare(b.id));
+
+export const createCraftingGrid = (size: number): CraftingGrid => ({
+  size,
+  slots: new Array(size * size).fill(null)
+});
+
+// Items in the smallest box around the filled cells, row by row
+const trimCells = (cells: (ItemType | null)[], size: number): { width: number; height: number; items: (ItemType | null)[] } => {
+  const filled = cells.map((item, index) => (item ? index : -1)).filter(index => index >= 0);
+  if (filled.length === 0) return { width: 0, height: 0, items: [] };
+
+  const columns = filled.map(index => index % size);
+  const rows = filled.map(index => Math.floor(index / size));
+  const minX = Math.min(...columns);
+  const minY = Math.min(...rows);
+  const width = Math.max(...columns) - minX + 1;
+  const height = Math.max(...rows) - minY + 1;
+
+  const items: (ItemType | null)[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      items.push(cells[(minY + y) * size + minX + x]);
+    }
+  }
+  return { width, height, items };
+};
+
+const sortedItems = (items: (ItemType | null)[]): string => {
+  return items.filter((item): item is ItemType => item !== null).sort().join(',');
+};
+
+const matchesRecipe = (recipe: Recipe, grid: CraftingGrid): boolean => {
+  if (recipe.gridSize > grid.size) return false;
+
+  const placed = trimCells(grid.slots.map(slot => slot?.type ?? null), grid.size);
+  if (recipe.type === 'shapeless') return sortedItems(placed.items) === sortedItems(recipe.ingredients);
+
+  const pattern = trimCells(recipe.layout, recipe.gridSize);
+  if (placed.width !== pattern.width || placed.height !== pattern.height) return false;
+
+  const mirrored = pattern.items.map((_, index) => {
+    const x = index % pattern.width;
+    return pattern.items[index - x + pattern.width - 1 - x];
+  });
+  const matches = (items: (ItemType | null)[]) => items.every((item, index) => item === placed.items[index]);
+  return matches(pattern.items) || matches(mirrored);
+};
+
+// Recipe matching what's in the grid, null if there is none
+export const findRecipe = (grid: CraftingGrid): Recipe | null => {
+  if (grid.slots.every(slot => slot === null)) return null;
+  return RECIPES.find(recipe => matchesRecipe(recipe, grid)) ?? null;
+};
+
+export const getCraftingResult = (grid: CraftingGrid): ItemStack | null => {
+  const recipe = findRecipe(grid);
+  return recipe ? { type: recipe.result.item, count: recipe.result.count } : null;
+};
+
+/**
+ * Craft once: the result goes into the inventory and one item of every filled cell is used
+ * up. Null when nothing matches or the result doesn't fit in the inventory.
+ */
+export const craftItem = (grid: CraftingGrid, inventory: Inventory): { grid: CraftingGrid; inventory: Inventory } | null => {
+  const result = getCraftingResult(grid);
+  if (!result) return null;
+
+  const added = addItem(inventory, result.type, result.count);
+  if (added.remaining > 0) return null;
+
+  const slots = grid.slots.map(slot => (slot && slot.count > 1 ? { ...slot, count: slot.count - 1 } : null));
+  return { grid: { ...grid, slots }, inventory: added.inventory };
+};
+
+/**
+ * Put everything in the grid back into the inventory. Returns the emptied grid, and how
+ * many items found no room.
+ */
+export const returnGridItems = (grid: CraftingGrid, inventory: Inventory): { grid: CraftingGrid; inventory: Inventory; lost: number } => {
+  let lost = 0;
+  const returned = grid.slots.reduce((current, slot) => {
+    if (!slot) return current;
+    const added = addStack(current, slot);
+    lost += added.remaining;
+    return added.inventory;
+  }, inventory);
+
+  return { grid: createCraftingGrid(grid.size), inventory: returned, lost };
+};
+
+// Items a recipe uses up, counted per item
+export const getRecipeIngredients = (recipe: Recipe): Map<ItemType, number> => {
+  const counts = new Map<ItemType, number>();
+  recipe.layout.forEach(item => {
+    if (item) counts.set(item, (counts.get(item) ?? 0) + 1);
+  });
+  return counts;
+};
+
+/**
+ * Lay a recipe out in the grid for the recipe book, with items taken from the inventory.
+ * Whatever was in the grid goes back to the inventory first. Null if the recipe needs a
+ * larger grid or the inventory lacks some of its items.
+ */
+export const fillGridWithRecipe = (
+  recipe: Recipe,
+  grid: CraftingGrid,
+  inventory: Inventory
+): { grid: CraftingGrid; inventory: Inventory } | null => {
+  if (recipe.gridSize > grid.size) return null;
+
+  const cleared = returnGridItems(grid, inventory);
+  if (cleared.lost > 0) return null;
+
+  let remaining: Inventory | null = cleared.inventory;
+  for (const [item, count] of getRecipeIngredients(recipe)) {
+    remaining = remaining && removeItem(remaining, item, count);
+  }
+  if (!remaining) return null;
+
+  const slots = cleared.grid.slots.map((_, index) => {
+    const x = index % grid.size;
+    const y = Math.floor(index / grid.size);
+    const item = x < recipe.gridSize && y < recipe.gridSize ? recipe.layout[y * recipe.gridSize + x] : null;
+    return item ? { type: item, count: 1 } : null;
+  });
+  return { grid: { ...grid, slots }, inventory: remaining };
+};
@@ -0,0 +1,187 @@
+import { BlockType } from './types';
+import { TreeShape } from './biomes';
+import type { TerrainColumn } from './noise';
+
+// Furthest a feature reaches horizontally from the column it grows in
+export const MAX_FEATURE_RADIUS = 2;
+
+// Surfaces plants and trees can grow on
+const FERTILE_SURFACES: BlockType[] = ['grass', 'dirt', 'snow'];
+
+// Share of plants on grass that are tall grass rather than bushes
+const TALL_GRASS_SHARE = 0.85;
+
+// Offset keeping feature block keys positive for any height
+const KEY_Y_OFFSET = 1 << 12;
+
+export type FeatureBlock = [x: number, y: number, z: number, type: BlockType];
+
+// Blocks decorating one chunk column (all heights), from features rooted in or near it and
+// from structures. Null where a structure carved out the terrain.
+export interface ChunkColumnFeatures {
+  blocks: Map<number, BlockType | null>;
+  // Highest decorated position of each local column, -Infinity where there is none
+  tops: Float64Array;
+}
+
+// Key of a block inside a chunk column, local x and z with a world y
+export const getFeatureBlockKey = (localX: number, y: number, localZ: number, size: number): number => {
+  return ((y + KEY_Y_OFFSET) * size + localZ) * size + localX;
+};
+
+// Deterministic value in [0, 1) for a column, differing per salt
+export const hashColumn = (seed: number, x: number, z: number, salt: number): number => {
+  let hash = seed ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(z, 0x165667b1) ^ Math.imul(salt, 0x9e3779b9);
+  hash = Math.imul(hash ^ (hash >>> 15), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 4294967296;
+};
+
+// Leaves in a horizontal disc, corners dropped at random so canopies aren't square
+const addLeafLayer = (
+  blocks: FeatureBlock[],
+  seed: number,
+  x: number,
+  y: number,
+  z: number,
+  radius: number
+): void => {
+  for (let dx = -radius; dx <= radius; dx++) {
+    for (let dz = -radius; dz <= radius; dz++) {
+      const isCorner = Math.abs(dx) === radius && Math.abs(dz) === radius;
+      if (isCorner && (radius > 1 || hashColumn(seed, x + dx, z + dz, y) < 0.5)) continue;
+      blocks.push([x + dx, y, z + dz, 'leaves']);
+    }
+  }
+};
+
+const buildTree = (seed: number, shape: TreeShape, x: number, groundY: number, z: number): FeatureBlock[] => {
+  const blocks: FeatureBlock[] = [];
+  const variation = hashColumn(seed, x, z, 2);
+  const base = groundY + 1;
+
+  if (shape === 'oak') {
+    const height = 4 + Math.floor(variation * 3);
+    const top = base + height - 1;
+    addLeafLayer(blocks, seed, x, top - 2, z, 2);
+    addLeafLayer(blocks, seed, x, top - 1, z, 2);
+    addLeafLayer(blocks, seed, x, top, z, 1);
+    addLeafLayer(blocks, seed, x, top + 1, z, 1);
+    for (let y = base; y <= top; y++) blocks.push([x, y, z, 'wood']);
+  } else if (shape === 'birch') {
+    const height = 6 + Math.floor(variation * 3);
+    const top = base + height - 1;
+    for (let y = top - 3; y <= top; y++) addLeafLayer(blocks, seed, x, y, z, 1);
+    blocks.push([x, top + 1, z, 'leaves']);
+    for (let y = base; y <= top; y++) blocks.push([x, y, z, 'wood']);
+  } else {
+    // Pine: a cone of leaves narrowing towards the top
+    const height = 6 + Math.floor(variation * 3);
+    const top = base + height - 1;
+    for (let y = base + 2; y <= top; y++) {
+      const radius = (top - y) % 2 === 0 ? 1 : 2;
+      addLeafLayer(blocks, seed, x, y, z, y >= top - 1 ? 1 : radius);
+    }
+    blocks.push([x, top + 1, z, 'leaves']);
+    for (let y = base; y <= top; y++) blocks.push([x, y, z, 'wood']);
+  }
+
+  return blocks;
+};
+
+/**
+ * The feature growing in a column, if any: a tree, a bush or tall grass. Only depends on
+ * the seed, position and terrain column, so any chunk asking gets the same answer.
+ */
+export const getColumnFeature = (seed: number, x: number, z: number, column: TerrainColumn): FeatureBlock[] | null => {
+  const { height, biome, waterLevel } = column;
+  if (height <= waterLevel) return null;
+
+  const surface = biome.surfaceBlock;
+  if (!FERTILE_SURFACES.includes(surface)) return null;
+
+  const roll = hashColumn(seed, x, z, 0);
+
+  if (roll < biome.featureDensity && biome.trees.length > 0) {
+    const shape = biome.trees[Math.floor(hashColumn(seed, x, z, 1) * biome.trees.length)];
+    return buildTree(seed, shape, x, height, z);
+  }
+
+  if (roll < biome.featureDensity + biome.plantDensity) {
+    if (surface === 'grass' && hashColumn(seed, x, z, 3) < TALL_GRASS_SHARE) {
+      return [[x, height + 1, z, 'tall_grass']];
+    }
+
+    const bush: FeatureBlock[] = [[x, height + 2, z, 'leaves']];
+    addLeafLayer(bush, seed, x, height + 1, z, 1);
+    return bush;
+  }
+
+  return null;
+};
+
+// Whether a feature block may overwrite what is already at its position
+const canReplace = (existing: BlockType | null, type: BlockType): boolean => {
+  if (existing === null || existing === 'tall_grass') return true;
+  return existing === 'leaves' && type === 'wood';
+};
+
+/**
+ * Place every feature that reaches into a chunk column, including ones rooted in
+ * neighbouring chunks. Roots are visited in world order so overlapping features
+ * resolve the same way whichever chunk is generated first.
+ */
+export const placeChunkColumnFeatures = (
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  size: number,
+  getColumn: (x: number, z: number) => TerrainColumn,
+  getTerrainBlock: (x: number, y: number, z: number, column: TerrainColumn) => BlockType | null,
+  isRootBlocked: (x: number, z: number) => boolean
+): ChunkColumnFeatures => {
+  const startX = chunkX * size;
+  const startZ = chunkZ * size;
+  const blocks = new Map<number, BlockType | null>();
+  const tops = new Float64Array(size * size).fill(-Infinity);
+  const columns = new Map<number, TerrainColumn>();
+
+  const getLocalColumn = (localX: number, localZ: number): TerrainColumn => {
+    const index = localZ * size + localX;
+    let column = columns.get(index);
+    if (!column) {
+      column = getColumn(startX + localX, startZ + localZ);
+      columns.set(index, column);
+    }
+    return column;
+  };
+
+  for (let x = startX - MAX_FEATURE_RADIUS; x < startX + size + MAX_FEATURE_RADIUS; x++) {
+    for (let z = startZ - MAX_FEATURE_RADIUS; z < startZ + size + MAX_FEATURE_RADIUS; z++) {
+      const isInside = x >= startX && x < startX + size && z >= startZ && z < startZ + size;
+      const column = isInside ? getLocalColumn(x - startX, z - startZ) : getColumn(x, z);
+      const feature = getColumnFeature(seed, x, z, column);
+      if (!feature) continue;
+
+      // Nothing grows where a cave has opened up the surface, or where a structure stands
+      if (getTerrainBlock(x, column.height, z, column) === null || isRootBlocked(x, z)) continue;
+
+      for (const [blockX, blockY, blockZ, type] of feature) {
+        const localX = blockX - startX;
+        const localZ = blockZ - startZ;
+        if (localX < 0 || localX >= size || localZ < 0 || localZ >= size) continue;
+
+        const key = getFeatureBlockKey(localX, blockY, localZ, size);
+        const existing = blocks.get(key) ?? getTerrainBlock(blockX, blockY, blockZ, getLocalColumn(localX, localZ));
+        if (!canReplace(existing, type)) continue;
+
+        blocks.set(key, type);
+        const topIndex = localZ * size + localX;
+        tops[topIndex] = Math.max(tops[topIndex], blockY);
+      }
+    }
+  }
+
+  return { blocks, tops };
+};
@@ -0,0 +1,84 @@
+export type GameMode = 'survival' | 'creative' | 'spectator';
+
+// What the player can do in a game mode
+export interface GameModeRules {
+  name: string;
+  description: string;
+  // Placing blocks never uses them up and breaking them gives nothing
+  infiniteItems: boolean;
+  // Double tapping jump toggles flying
+  canFly: boolean;
+  // Always flying, through blocks
+  noclip: boolean;
+  // Breaking and placing blocks
+  canInteract: boolean;
+  // Blocks break on the first hit rather than after mining them
+  instantBreak: boolean;
+  // Health, falling and lava damage
+  takesDamage: boolean;
+  // Every block type can be taken from a palette on the inventory screen
+  blockPalette: boolean;
+  // Hotbar and inventory are available
+  hasInventory: boolean;
+}
+
+export const GAME_MODES: Record<GameMode, GameModeRules> = {
+  survival: {
+    name: 'Survival',
+    description: 'Gather blocks, mind your health',
+    infiniteItems: false,
+    canFly: false,
+    noclip: false,
+    canInteract: true,
+    instantBreak: false,
+    takesDamage: true,
+    blockPalette: false,
+    hasInventory: true
+  },
+  creative: {
+    name: 'Creative',
+    description: 'Every block, flying and instant breaking',
+    infiniteItems: true,
+    canFly: true,
+    noclip: false,
+    canInteract: true,
+    instantBreak: true,
+    takesDamage: false,
+    blockPalette: true,
+    hasInventory: true
+  },
+  spectator: {
+    name: 'Spectator',
+    description: 'Fly through everything, touch nothing',
+    infiniteItems: false,
+    canFly: true,
+    noclip: true,
+    canInteract: false,
+    instantBreak: false,
+    takesDamage: false,
+    blockPalette: false,
+    hasInventory: false
+  }
+};
+
+export const DEFAULT_GAME_MODE: GameMode = 'survival';
+
+// Game modes of worlds saved before they had one, or with one this version doesn't know
+export const getGameMode = (mode: string | undefined): GameMode => {
+  return mode !== undefined && Object.hasOwn(GAME_MODES, mode) ? (mode as GameMode) : DEFAULT_GAME_MODE;
+};
+
+// Health is counted in half hearts
+export const MAX_HEALTH = 20;
+
+// Falls up to this many blocks are harmless, every block further costs one point of health
+export const SAFE_FALL_DISTANCE = 3;
+
+export const LAVA_DAMAGE_PER_SECOND = 4;
+
+// Seconds between regenerating one point of health
+export const REGENERATION_INTERVAL = 4;
+
+export const getFallDamage = (fallDistance: number): number => {
+  return Math.max(0, Math.ceil(fallDistance - SAFE_FALL_DISTANCE));
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ChunkData } from './types';
+import { CHUNK_SIZE } from './chunks';
+import { getBlockId } from './blocks';
+import { CURRENT_GENERATOR_VERSION, DEFAULT_GENERATOR_SETTINGS, LEGACY_GENERATOR_VERSION, createTerrainGenerator } from './noise';
+import type { WorldGenerator } from './worldTypes';
+
+// A chunk whose blocks are known for a generator version
+interface GoldenChunk {
+  version: number;
+  seed: string;
+  position: [x: number, y: number, z: number];
+  hash: number;
+}
+
+/**
+ * Hashes of chunks generated when each version was released. Worlds are saved as block
+ * changes on top of generated terrain, so a generator version must keep producing these
+ * exact chunks - if one stops matching, existing worlds of that version have changed.
+ * Intended changes to generation go in a new version with its own golden chunks.
+ */
+const GOLDEN_CHUNKS: GoldenChunk[] = [
+  // Hills, the grass and dirt surface, a sandy lowland and solid stone, as the first worlds had
+  { version: LEGACY_GENERATOR_VERSION, seed: 'golden', position: [0, 0, 0], hash: 765894941 },
+  { version: LEGACY_GENERATOR_VERSION, seed: 'golden', position: [5, 1, -3], hash: 138425609 },
+  { version: LEGACY_GENERATOR_VERSION, seed: 'golden', position: [-8, 0, 7], hash: 2779930641 },
+  { version: LEGACY_GENERATOR_VERSION, seed: 'golden', position: [0, -2, 0], hash: 2437180869 },
+  // Surface with trees, underground caves and ores, deep lava
+  { version: CURRENT_GENERATOR_VERSION, seed: 'golden', position: [0, 0, 0], hash: 2523364465 },
+  { version: CURRENT_GENERATOR_VERSION, seed: 'golden', position: [5, 0, -3], hash: 1547196774 },
+  { version: CURRENT_GENERATOR_VERSION, seed: 'golden', position: [0, -2, 0], hash: 4227091165 },
+  { version: CURRENT_GENERATOR_VERSION, seed: 'golden', position: [-4, -4, 2], hash: 2216894653 },
+];
+
+// FNV-1a hash of a chunk's block ids, in storage order
+const hashChunk = (chunk: ChunkData): number => {
+  let hash = 2166136261;
+  for (let x = 0; x < CHUNK_SIZE; x++) {
+    for (let y = 0; y < CHUNK_SIZE; y++) {
+      for (let z = 0; z < CHUNK_SIZE; z++) {
+        hash = Math.imul(hash ^ getBlockId(chunk.storage.get(x, y, z)), 16777619);
+      }
+    }
+  }
+  return hash >>> 0;
+};
+
+describe('golden chunks', () => {
+  const generators = new Map<string, WorldGenerator>();
+
+  it.each(GOLDEN_CHUNKS)('generator v$version chunk $position of seed "$seed" hashes to $hash', ({ version, seed, position, hash }) => {
+    const key = `${version}:${seed}`;
+    let generator = generators.get(key);
+    if (!generator) {
+      generator = createTerrainGenerator(seed, { ...DEFAULT_GENERATOR_SETTINGS, version });
+      generators.set(key, generator);
+    }
+
+    expect(hashChunk(generator.generateChunk(position[0], position[1], position[2], CHUNK_SIZE))).toBe(hash);
+  });
+});
@@ -0,0 +1,151 @@
+import { NoiseFunction2D } from 'simplex-noise';
+import { hashColumn } from './features';
+
+// Rivers follow the zero line of a ridged noise field, meandering through a second field
+const RIVER_SCALE = 0.0025;
+const RIVER_WARP_SCALE = 0.004;
+const RIVER_WARP_STRENGTH = 40;
+
+// Distances from the zero line (in noise units) of the channel and of its sloping banks
+const RIVER_WIDTH = 0.012;
+const RIVER_BANK_WIDTH = 0.045;
+
+// Blocks the river bed sits below sea level at the middle of the channel
+const RIVER_DEPTH = 3;
+
+// Rivers fade out as the land rises into mountain ranges
+const RIVER_FADE_START = 0.55;
+const RIVER_FADE_END = 0.8;
+
+// Lakes are placed at most one per square cell, fully inside it
+const LAKE_CELL_SIZE = 96;
+const LAKE_CHANCE = 0.35;
+const LAKE_MIN_RADIUS = 8;
+const LAKE_MAX_RADIUS = 18;
+const LAKE_DEPTH = 5;
+// Width of the bank sloping down to the water around a lake
+const LAKE_SHORE_WIDTH = 6;
+// Points around the rim sampled to find the water level
+const LAKE_RIM_SAMPLES = 16;
+
+// Lake cells kept so neighbouring columns don't sample the rim again
+const MAX_CACHED_LAKE_CELLS = 256;
+
+export interface Lake {
+  x: number;
+  z: number;
+  radius: number;
+  // Height of the water surface, the same for every column of the lake
+  level: number;
+}
+
+// Terrain height of a column after rivers, before lakes are dug
+export type LandHeightSampler = (x: number, z: number) => number;
+
+const smoothstep = (edge0: number, edge1: number, value: number): number => {
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Rivers and lakes shaping the terrain height. Rivers are carved down to sea level so
+ * they join the oceans, lakes hold water at their own level above it. Every value only
+ * depends on the seed and position, so water surfaces line up across chunk borders.
+ */
+export class Hydrology {
+  private riverNoise: NoiseFunction2D;
+  private riverWarpNoise: NoiseFunction2D;
+  private seed: number;
+  private seaLevel: number;
+  private lakeCells: Map<string, Lake | null> = new Map();
+
+  constructor(riverNoise: NoiseFunction2D, riverWarpNoise: NoiseFunction2D, seed: number, seaLevel: number) {
+    this.riverNoise = riverNoise;
+    this.riverWarpNoise = riverWarpNoise;
+    this.seed = seed;
+    this.seaLevel = seaLevel;
+  }
+
+  // Lower a column's height where a river channel or its banks pass through
+  public carveRiver(x: number, z: number, height: number, continentalness: number): number {
+    if (height <= this.seaLevel) return height;
+
+    const inland = 1 - smoothstep(RIVER_FADE_START, RIVER_FADE_END, continentalness);
+    if (inland <= 0) return height;
+
+    const warp = this.riverWarpNoise(x * RIVER_WARP_SCALE, z * RIVER_WARP_SCALE) * RIVER_WARP_STRENGTH;
+    const distance = Math.abs(this.riverNoise((x + warp) * RIVER_SCALE, (z - warp) * RIVER_SCALE));
+    if (distance >= RIVER_BANK_WIDTH) return height;
+
+    // Deepest in the middle of the channel, banks rise back to the land around them
+    const target = distance < RIVER_WIDTH
+      ? this.seaLevel - RIVER_DEPTH * (1 - distance / RIVER_WIDTH)
+      : this.seaLevel + (height - this.seaLevel) * smoothstep(RIVER_WIDTH, RIVER_BANK_WIDTH, distance);
+
+    return height + (Math.min(height, target) - height) * inland;
+  }
+
+  // Lake whose basin or shore reaches a column, if any
+  public getLake(x: number, z: number, getLandHeight: LandHeightSampler): Lake | null {
+    const cellX = Math.floor(x / LAKE_CELL_SIZE);
+    const cellZ = Math.floor(z / LAKE_CELL_SIZE);
+    const lake = this.getCellLake(cellX, cellZ, getLandHeight);
+    if (!lake) return null;
+
+    const distance = Math.hypot(x - lake.x, z - lake.z);
+    return distance < lake.radius + LAKE_SHORE_WIDTH ? lake : null;
+  }
+
+  // Height of a column dug into a lake basin, with the shore sloping down to the water
+  public digLake(x: number, z: number, height: number, lake: Lake): number {
+    const distance = Math.hypot(x - lake.x, z - lake.z);
+
+    if (distance < lake.radius) {
+      const depth = 1 + Math.floor(LAKE_DEPTH * (1 - (distance / lake.radius) ** 2));
+      return Math.min(height, lake.level - depth);
+    }
+
+    return Math.min(height, lake.level + Math.floor(distance - lake.radius));
+  }
+
+  // Height of the water surface over a column near a lake, only the basin holds lake water
+  public getWaterLevel(x: number, z: number, lake: Lake | null): number {
+    if (lake && Math.hypot(x - lake.x, z - lake.z) < lake.radius) return lake.level;
+    return this.seaLevel;
+  }
+
+  private getCellLake(cellX: number, cellZ: number, getLandHeight: LandHeightSampler): Lake | null {
+    const key = `${cellX},${cellZ}`;
+    if (this.lakeCells.has(key)) return this.lakeCells.get(key)!;
+
+    let lake: Lake | null = null;
+
+    if (hashColumn(this.seed, cellX, cellZ, 10) < LAKE_CHANCE) {
+      // Keep the lake and its shore inside the cell so columns only check their own cell
+      const margin = LAKE_MAX_RADIUS + LAKE_SHORE_WIDTH;
+      const span = LAKE_CELL_SIZE - margin * 2;
+      const x = cellX * LAKE_CELL_SIZE + margin + Math.floor(hashColumn(this.seed, cellX, cellZ, 11) * span);
+      const z = cellZ * LAKE_CELL_SIZE + margin + Math.floor(hashColumn(this.seed, cellX, cellZ, 12) * span);
+      const radius = LAKE_MIN_RADIUS + Math.floor(hashColumn(this.seed, cellX, cellZ, 13) * (LAKE_MAX_RADIUS - LAKE_MIN_RADIUS + 1));
+
+      // Water rises to just below the lowest point of the rim, so it can't spill over
+      let rim = Infinity;
+      for (let i = 0; i < LAKE_RIM_SAMPLES; i++) {
+        const angle = (i / LAKE_RIM_SAMPLES) * Math.PI * 2;
+        rim = Math.min(rim, getLandHeight(Math.round(x + Math.cos(angle) * radius), Math.round(z + Math.sin(angle) * radius)));
+      }
+
+      const level = Math.floor(rim) - 1;
+      // Basins at or below sea level are left to the sea and rivers
+      if (level > this.seaLevel + 1) {
+        lake = { x, z, radius, level };
+      }
+    }
+
+    if (this.lakeCells.size >= MAX_CACHED_LAKE_CELLS) {
+      this.lakeCells.delete(this.lakeCells.keys().next().value!);
+    }
+    this.lakeCells.set(key, lake);
+    return lake;
+  }
+}
@@ -0,0 +1,220 @@
+import { BlockType } from './types';
+import { ItemType, getMaxDurability, getMaxStackSize, isItemType } from './items';
+
+// Slots shown in the hotbar, they come first in the slot list
+export const HOTBAR_SIZE = 9;
+
+// Slots only reachable from the inventory screen
+export const MAIN_INVENTORY_SIZE = 36;
+
+export const INVENTORY_SIZE = HOTBAR_SIZE + MAIN_INVENTORY_SIZE;
+
+export interface ItemStack {
+  type: ItemType;
+  count: number;
+  // Uses left for items that wear out, such stacks never merge
+  durability?: number;
+}
+
+export type InventorySlot = ItemStack | null;
+
+// What the player carries, hotbar slots first
+export interface Inventory {
+  slots: InventorySlot[];
+}
+
+// Blocks that drop something else when broken, or nothing at all
+const BLOCK_DROPS: Partial<Record<BlockType, ItemType | null>> = {
+  grass: 'dirt',
+  tall_grass: null,
+  leaves: null,
+  glass: null,
+  water: null,
+  lava: null,
+  bedrock: null
+};
+
+// A new stack of an item, tools start out unworn
+export const createItemStack = (type: ItemType, count: number = 1): ItemStack => {
+  const durability = getMaxDurability(type);
+  return durability === null ? { type, count } : { type, count, durability };
+};
+
+// Whether two stacks can be merged into one slot
+const canStack = (a: ItemStack, b: ItemStack): boolean => {
+  return a.type === b.type && a.durability === undefined && b.durability === undefined;
+};
+
+export const createInventory = (): Inventory => ({
+  slots: new Array(INVENTORY_SIZE).fill(null)
+});
+
+// Inventory from saved slots, missing or extra slots are filled in or dropped, as are unknown items
+export const loadInventory = (slots: InventorySlot[] | undefined): Inventory => {
+  const inventory = createInventory();
+  slots?.slice(0, INVENTORY_SIZE).forEach((slot, index) => {
+    if (slot && slot.count > 0 && isItemType(slot.type)) {
+      const stack = createItemStack(slot.type, Math.min(slot.count, getMaxStackSize(slot.type)));
+      if (stack.durability !== undefined && slot.durability != null) {
+        stack.durability = Math.min(Math.max(slot.durability, 1), stack.durability);
+      }
+      inventory.slots[index] = stack;
+    }
+  });
+  return inventory;
+};
+
+export const isHotbarSlot = (slot: number): boolean => slot < HOTBAR_SIZE;
+
+// Item a broken block gives the player, null if it drops nothing
+export const getBlockDrop = (type: BlockType): ItemType | null => {
+  const drop = BLOCK_DROPS[type];
+  return drop === undefined ? type : drop;
+};
+
+// Copy of the slots with some of them replaced
+const withSlots = (inventory: Inventory, changes: Map<number, InventorySlot>): Inventory => ({
+  slots: inventory.slots.map((slot, index) => (changes.has(index) ? changes.get(index)! : slot))
+});
+
+// Put a stack into a range of slots, topping up stacks it merges with before using empty slots
+const addToSlots = (
+  inventory: Inventory,
+  stack: ItemStack,
+  slotOrder: number[]
+): { inventory: Inventory; remaining: number } => {
+  const changes = new Map<number, InventorySlot>();
+  let remaining = stack.count;
+
+  for (const pass of ['stack', 'empty'] as const) {
+    for (const index of slotOrder) {
+      if (remaining === 0) break;
+
+      const slot = changes.get(index) ?? inventory.slots[index];
+      if (pass === 'stack' ? !slot || !canStack(slot, stack) : slot !== null) continue;
+
+      const current = slot?.count ?? 0;
+      const added = Math.min(getMaxStackSize(stack.type) - current, remaining);
+      if (added <= 0) continue;
+
+      changes.set(index, { ...stack, count: current + added });
+      remaining -= added;
+    }
+  }
+
+  return { inventory: withSlots(inventory, changes), remaining };
+};
+
+const range = (start: number, end: number): number[] => Array.from({ length: end - start }, (_, i) => start + i);
+
+/**
+ * Add items anywhere in the inventory, hotbar first. Returns the new inventory and how
+ * many items didn't fit.
+ */
+export const addItem = (inventory: Inventory, type: ItemType, count: number = 1): { inventory: Inventory; remaining: number } => {
+  return addToSlots(inventory, createItemStack(type, count), range(0, INVENTORY_SIZE));
+};
+
+// Add a stack as it is, worn tools stay worn
+export const addStack = (inventory: Inventory, stack: ItemStack): { inventory: Inventory; remaining: number } => {
+  return addToSlots(inventory, stack, range(0, INVENTORY_SIZE));
+};
+
+// How many of an item the inventory holds, over all slots
+export const countItem = (inventory: Inventory, type: ItemType): number => {
+  return inventory.slots.reduce((total, slot) => total + (slot?.type === type ? slot.count : 0), 0);
+};
+
+// Take items of a type out of the inventory, from the last slots first. Null if there aren't enough.
+export const removeItem = (inventory: Inventory, type: ItemType, count: number): Inventory | null => {
+  if (countItem(inventory, type) < count) return null;
+
+  const changes = new Map<number, InventorySlot>();
+  let remaining = count;
+  for (let index = inventory.slots.length - 1; index >= 0 && remaining > 0; index--) {
+    const slot = inventory.slots[index];
+    if (slot?.type !== type) continue;
+
+    const taken = Math.min(slot.count, remaining);
+    changes.set(index, slot.count > taken ? { ...slot, count: slot.count - taken } : null);
+    remaining -= taken;
+  }
+  return withSlots(inventory, changes);
+};
+
+// Replace what's in a slot
+export const setSlot = (inventory: Inventory, slot: number, stack: InventorySlot): Inventory => {
+  return withSlots(inventory, new Map([[slot, stack]]));
+};
+
+// Take items out of a slot, clearing it once it's empty
+export const removeFromSlot = (inventory: Inventory, slot: number, count: number = 1): Inventory => {
+  const stack = inventory.slots[slot];
+  if (!stack) return inventory;
+
+  const left = stack.count - count;
+  return withSlots(inventory, new Map([[slot, left > 0 ? { ...stack, count: left } : null]]));
+};
+
+/**
+ * Move items from one slot onto another (the whole stack unless `count` is given). Stacks
+ * of the same type are merged up to the stack size, a whole stack dropped on a different
+ * type swaps places with it.
+ */
+export const moveStack = (inventory: Inventory, from: number, to: number, count?: number): Inventory => {
+  const source = inventory.slots[from];
+  const target = inventory.slots[to];
+  if (!source || from === to) return inventory;
+
+  const moving = Math.min(count ?? source.count, source.count);
+
+  if (target && !canStack(target, source)) {
+    // Only whole stacks swap, a part of one has nowhere to go
+    if (moving < source.count) return inventory;
+    return withSlots(inventory, new Map([[from, target], [to, source]]));
+  }
+
+  const moved = Math.min(moving, getMaxStackSize(source.type) - (target?.count ?? 0));
+  if (moved <= 0) return inventory;
+
+  const left = source.count - moved;
+  return withSlots(inventory, new Map<number, InventorySlot>([
+    [from, left > 0 ? { ...source, count: left } : null],
+    [to, { ...source, count: (target?.count ?? 0) + moved }]
+  ]));
+};
+
+// Move a stack between the hotbar and the main inventory, as far as there's room
+export const quickMove = (inventory: Inventory, slot: number): Inventory => {
+  const stack = inventory.slots[slot];
+  if (!stack) return inventory;
+
+  const destination = isHotbarSlot(slot) ? range(HOTBAR_SIZE, INVENTORY_SIZE) : range(0, HOTBAR_SIZE);
+  const cleared = withSlots(inventory, new Map([[slot, null]]));
+  const { inventory: moved, remaining } = addToSlots(cleared, stack, destination);
+
+  return remaining > 0 ? withSlots(moved, new Map([[slot, { ...stack, count: remaining }]])) : moved;
+};
+
+// Split half of a stack off into the nearest empty slot after it
+export const splitStack = (inventory: Inventory, slot: number): Inventory => {
+  const stack = inventory.slots[slot];
+  if (!stack || stack.count < 2) return inventory;
+
+  const order = [...range(slot + 1, INVENTORY_SIZE), ...range(0, slot)];
+  const empty = order.find(index => inventory.slots[index] === null);
+  if (empty === undefined) return inventory;
+
+  return moveStack(inventory, slot, empty, Math.floor(stack.count / 2));
+};
+
+// Wear out the tool in a slot by one use, it breaks when no uses are left
+export const damageItem = (inventory: Inventory, slot: number): { inventory: Inventory; broke: boolean } => {
+  const stack = inventory.slots[slot];
+  if (!stack || stack.durability === undefined) return { inventory, broke: false };
+
+  if (stack.durability <= 1) {
+    return { inventory: withSlots(inventory, new Map([[slot, null]])), broke: true };
+  }
+  return { inventory: withSlots(inventory, new Map([[slot, { ...stack, durability: stack.durability - 1 }]])), broke: false };
+};
@@ -0,0 +1,68 @@
+import { BlockType } from './types';
+import { BLOCK_TYPES } from './blocks';
+import { MiningTool, TOOL_TIERS, TOOL_TYPES, ToolTier, ToolType } from './mining';
+
+// Items that aren't blocks, they can be carried and crafted but not placed
+export type MaterialType = 'planks' | 'stick' | 'iron_ingot';
+export type ToolItemType = `${ToolTier}_${ToolType}`;
+
+// Anything that fits in an inventory slot: every block, plus the items above
+export type ItemType = BlockType | MaterialType | ToolItemType;
+
+// Most items of one type a slot can hold
+export const MAX_STACK_SIZE = 64;
+
+export interface ItemProperties {
+  name: string;
+  // Block placed when the item is used on the world, null for items that can't be placed
+  block: BlockType | null;
+  // Most of the item a slot can hold
+  maxStack: number;
+  // How the item mines when held, null mines like a bare hand
+  tool: MiningTool | null;
+  // Blocks the item can break before it wears out, null for items that don't wear
+  durability: number | null;
+}
+
+// Readable name from an id, 'coal_ore' becomes 'Coal ore'
+const formatName = (id: string): string => {
+  const words = id.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const MATERIAL_ITEMS: Record<MaterialType, ItemProperties> = {
+  planks: { name: 'Planks', block: null, maxStack: MAX_STACK_SIZE, tool: null, durability: null },
+  stick: { name: 'Stick', block: null, maxStack: MAX_STACK_SIZE, tool: null, durability: null },
+  iron_ingot: { name: 'Iron ingot', block: null, maxStack: MAX_STACK_SIZE, tool: null, durability: null }
+};
+
+// One tool of every type in every tier, 'stone_pickaxe' and so on
+const TOOL_ITEMS = Object.fromEntries(
+  (Object.keys(TOOL_TIERS) as ToolTier[]).flatMap(tier => TOOL_TYPES.map(type => [
+    `${tier}_${type}`,
+    { name: formatName(`${tier}_${type}`), block: null, maxStack: 1, tool: { type, tier }, durability: TOOL_TIERS[tier].durability }
+  ]))
+) as Record<ToolItemType, ItemProperties>;
+
+// Every item, blocks first in registry order
+export const ITEM_PROPERTIES: Record<ItemType, ItemProperties> = {
+  ...(Object.fromEntries(
+    BLOCK_TYPES.map(type => [type, { name: formatName(type), block: type, maxStack: MAX_STACK_SIZE, tool: null, durability: null }])
+  ) as Record<BlockType, ItemProperties>),
+  ...MATERIAL_ITEMS,
+  ...TOOL_ITEMS
+};
+
+export const ITEM_TYPES = Object.keys(ITEM_PROPERTIES) as ItemType[];
+
+export const isItemType = (value: string): value is ItemType => Object.hasOwn(ITEM_PROPERTIES, value);
+
+export const getItemName = (type: ItemType): string => ITEM_PROPERTIES[type].name;
+
+export const getItemBlock = (type: ItemType): BlockType | null => ITEM_PROPERTIES[type].block;
+
+export const getItemTool = (type: ItemType): MiningTool | null => ITEM_PROPERTIES[type].tool;
+
+export const getMaxStackSize = (type: ItemType): number => ITEM_PROPERTIES[type].maxStack;
+
+export const getMaxDurability = (type: ItemType): number | null => ITEM_PROPERTIES[type].durability;
@@ -0,0 +1,336 @@
+import { BlockType } from './types';
+import { getLightEmission, isTransparent } from './blocks';
+import { CHUNK_SIZE, getChunkKey, getChunkCoords } from './chunks';
+
+export const MAX_LIGHT = 15;
+
+// Light is packed per voxel: sky light in the high nibble, block light in the low nibble
+export const packLight = (sky: number, block: number): number => (sky << 4) | block;
+export const unpackSkyLight = (packed: number): number => packed >> 4;
+export const unpackBlockLight = (packed: number): number => packed & 0x0f;
+
+// Light reported for chunks that haven't been lit yet
+const UNLOADED_LIGHT = packLight(MAX_LIGHT, 0);
+
+export interface LightWorldAccess {
+  getBlock: (x: number, y: number, z: number) => BlockType | null;
+  // Lowest y in a column that still receives direct sunlight
+  getSunlitHeight: (x: number, z: number) => number;
+}
+
+type LightChannel = 'sky' | 'block';
+
+const NEIGHBOUR_OFFSETS = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+];
+
+const localIndex = (x: number, y: number, z: number): number => {
+  return x + y * CHUNK_SIZE + z * CHUNK_SIZE * CHUNK_SIZE;
+};
+
+/**
+ * Per-voxel light for loaded chunks. Sunlight falls straight down columns at full
+ * strength and floods sideways losing one level per block, block light spreads the
+ * same way from emitting blocks. Changes are applied incrementally with BFS passes
+ * that may spill into neighbouring chunks.
+ */
+export class LightEngine {
+  private world: LightWorldAccess;
+  private chunks: Map<string, Uint8Array> = new Map();
+  private dirtyChunks: Set<string> = new Set();
+
+  constructor(world: LightWorldAccess) {
+    this.world = world;
+  }
+
+  public hasChunk(chunkX: number, chunkY: number, chunkZ: number): boolean {
+    return this.chunks.has(getChunkKey(chunkX, chunkY, chunkZ));
+  }
+
+  public removeChunk(chunkX: number, chunkY: number, chunkZ: number): void {
+    this.chunks.delete(getChunkKey(chunkX, chunkY, chunkZ));
+  }
+
+  // Packed light at a world position
+  public getLight(x: number, y: number, z: number): number {
+    const chunkCoords = getChunkCoords(x, y, z);
+    const light = this.chunks.get(getChunkKey(chunkCoords.x, chunkCoords.y, chunkCoords.z));
+    if (!light) return UNLOADED_LIGHT;
+
+    return light[localIndex(
+      x - chunkCoords.x * CHUNK_SIZE,
+      y - chunkCoords.y * CHUNK_SIZE,
+      z - chunkCoords.z * CHUNK_SIZE
+    )];
+  }
+
+  /**
+   * Fill a padded volume (chunk plus one block border, indexed like the mesher's block
+   * volume) with packed light values
+   */
+  public fillPaddedLight(volume: Uint8Array, chunkX: number, chunkY: number, chunkZ: number): Uint8Array {
+    const paddedSize = CHUNK_SIZE + 2;
+    const startX = chunkX * CHUNK_SIZE;
+    const startY = chunkY * CHUNK_SIZE;
+    const startZ = chunkZ * CHUNK_SIZE;
+    const ownLight = this.chunks.get(getChunkKey(chunkX, chunkY, chunkZ));
+
+    for (let y = -1; y <= CHUNK_SIZE; y++) {
+      for (let z = -1; z <= CHUNK_SIZE; z++) {
+        for (let x = -1; x <= CHUNK_SIZE; x++) {
+          const index = (x + 1) + (y + 1) * paddedSize + (z + 1) * paddedSize * paddedSize;
+          const isInterior =
+            x >= 0 && x < CHUNK_SIZE &&
+            y >= 0 && y < CHUNK_SIZE &&
+            z >= 0 && z < CHUNK_SIZE;
+
+          if (isInterior && ownLight) {
+            volume[index] = ownLight[localIndex(x, y, z)];
+          } else {
+            volume[index] = this.getLight(startX + x, startY + y, startZ + z);
+          }
+        }
+      }
+    }
+
+    return volume;
+  }
+
+  /**
+   * Compute light for a newly loaded chunk and let light flow across its borders.
+   * Returns the keys of chunks whose meshes need rebuilding.
+   */
+  public lightChunk(chunkX: number, chunkY: number, chunkZ: number): Set<string> {
+    const light = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE);
+    this.chunks.set(getChunkKey(chunkX, chunkY, chunkZ), light);
+    this.dirtyChunks = new Set();
+
+    const startX = chunkX * CHUNK_SIZE;
+    const startY = chunkY * CHUNK_SIZE;
+    const startZ = chunkZ * CHUNK_SIZE;
+    const skyQueue: number[] = [];
+    const blockQueue: number[] = [];
+
+    // Seed direct sunlight and light emitting blocks
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        const sunlitHeight = this.world.getSunlitHeight(startX + x, startZ + z);
+
+        for (let y = 0; y < CHUNK_SIZE; y++) {
+          const worldY = startY + y;
+          const sky = worldY >= sunlitHeight ? MAX_LIGHT : 0;
+          const emission = getLightEmission(this.world.getBlock(startX + x, worldY, startZ + z));
+
+          light[localIndex(x, y, z)] = packLight(sky, emission);
+          if (sky > 0) skyQueue.push(startX + x, worldY, startZ + z);
+          if (emission > 0) blockQueue.push(startX + x, worldY, startZ + z);
+        }
+      }
+    }
+
+    // Pull in light from already lit neighbours across each border
+    for (let a = 0; a < CHUNK_SIZE; a++) {
+      for (let b = 0; b < CHUNK_SIZE; b++) {
+        const borderCells = [
+          [startX - 1, startY + a, startZ + b],
+          [startX + CHUNK_SIZE, startY + a, startZ + b],
+          [startX + a, startY - 1, startZ + b],
+          [startX + a, startY + CHUNK_SIZE, startZ + b],
+          [startX + a, startY + b, startZ - 1],
+          [startX + a, startY + b, startZ + CHUNK_SIZE],
+        ];
+        borderCells.forEach(([x, y, z]) => {
+          const packed = this.getStoredLight(x, y, z);
+          if (packed === null) return;
+          if (unpackSkyLight(packed) > 1) skyQueue.push(x, y, z);
+          if (unpackBlockLight(packed) > 1) blockQueue.push(x, y, z);
+        });
+      }
+    }
+
+    this.propagate(skyQueue, 'sky');
+    this.propagate(blockQueue, 'block');
+
+    // Neighbours meshed their borders against estimated light for this chunk
+    NEIGHBOUR_OFFSETS.forEach(([dx, dy, dz]) => {
+      this.dirtyChunks.add(getChunkKey(chunkX + dx, chunkY + dy, chunkZ + dz));
+    });
+
+    return this.dirtyChunks;
+  }
+
+  /**
+   * Relight around a block that was placed or removed. The world must already
+   * report the new block. Returns the keys of chunks whose meshes need rebuilding.
+   */
+  public updateBlock(x: number, y: number, z: number): Set<string> {
+    this.dirtyChunks = new Set();
+    if (this.getStoredLight(x, y, z) === null) return this.dirtyChunks;
+
+    const type = this.world.getBlock(x, y, z);
+    const skyRefill: number[] = [];
+    const blockRefill: number[] = [];
+
+    // Clear block light here and everything that depended on it
+    const oldBlockLight = this.getLevel(x, y, z, 'block');
+    if (oldBlockLight > 0) {
+      this.setLevel(x, y, z, 'block', 0);
+      this.unpropagate([x, y, z, oldBlockLight], 'block', blockRefill);
+    }
+
+    const emission = getLightEmission(type);
+    if (emission > 0) {
+      this.setLevel(x, y, z, 'block', emission);
+      blockRefill.push(x, y, z);
+    }
+
+    if (!isTransparent(type)) {
+      // An opaque block cuts off the sky light passing through this cell
+      const oldSkyLight = this.getLevel(x, y, z, 'sky');
+      if (oldSkyLight > 0) {
+        this.setLevel(x, y, z, 'sky', 0);
+        this.unpropagate([x, y, z, oldSkyLight], 'sky', skyRefill);
+      }
+    } else {
+      // Light can now flow into this cell from any side
+      NEIGHBOUR_OFFSETS.forEach(([dx, dy, dz]) => {
+        skyRefill.push(x + dx, y + dy, z + dz);
+        blockRefill.push(x + dx, y + dy, z + dz);
+      });
+    }
+
+    this.markDirty(x, y, z);
+    this.propagate(skyRefill, 'sky');
+    this.propagate(blockRefill, 'block');
+
+    return this.dirtyChunks;
+  }
+
+  // Packed light for loaded chunks only
+  private getStoredLight(x: number, y: number, z: number): number | null {
+    const chunkCoords = getChunkCoords(x, y, z);
+    const light = this.chunks.get(getChunkKey(chunkCoords.x, chunkCoords.y, chunkCoords.z));
+    if (!light) return null;
+
+    return light[localIndex(
+      x - chunkCoords.x * CHUNK_SIZE,
+      y - chunkCoords.y * CHUNK_SIZE,
+      z - chunkCoords.z * CHUNK_SIZE
+    )];
+  }
+
+  private getLevel(x: number, y: number, z: number, channel: LightChannel): number {
+    const packed = this.getStoredLight(x, y, z);
+    if (packed === null) return 0;
+    return channel === 'sky' ? unpackSkyLight(packed) : unpackBlockLight(packed);
+  }
+
+  private setLevel(x: number, y: number, z: number, channel: LightChannel, level: number): void {
+    const chunkCoords = getChunkCoords(x, y, z);
+    const light = this.chunks.get(getChunkKey(chunkCoords.x, chunkCoords.y, chunkCoords.z));
+    if (!light) return;
+
+    const index = localIndex(
+      x - chunkCoords.x * CHUNK_SIZE,
+      y - chunkCoords.y * CHUNK_SIZE,
+      z - chunkCoords.z * CHUNK_SIZE
+    );
+    const packed = light[index];
+    light[index] = channel === 'sky'
+      ? packLight(level, unpackBlockLight(packed))
+      : packLight(unpackSkyLight(packed), level);
+  }
+
+  // Mark the chunk holding a voxel, plus neighbours that sample it as their border
+  private markDirty(x: number, y: number, z: number): void {
+    const chunkCoords = getChunkCoords(x, y, z);
+    const position = [chunkCoords.x, chunkCoords.y, chunkCoords.z];
+    const local = [
+      x - chunkCoords.x * CHUNK_SIZE,
+      y - chunkCoords.y * CHUNK_SIZE,
+      z - chunkCoords.z * CHUNK_SIZE
+    ];
+
+    this.dirtyChunks.add(getChunkKey(position[0], position[1], position[2]));
+    for (let axis = 0; axis < 3; axis++) {
+      let offset = 0;
+      if (local[axis] === 0) offset = -1;
+      else if (local[axis] === CHUNK_SIZE - 1) offset = 1;
+      else continue;
+
+      const neighbour = [...position];
+      neighbour[axis] += offset;
+      this.dirtyChunks.add(getChunkKey(neighbour[0], neighbour[1], neighbour[2]));
+    }
+  }
+
+  // Flood light outward from the queued voxels (flattened x, y, z triples)
+  private propagate(queue: number[], channel: LightChannel): void {
+    for (let head = 0; head < queue.length; head += 3) {
+      const x = queue[head];
+      const y = queue[head + 1];
+      const z = queue[head + 2];
+      const level = this.getLevel(x, y, z, channel);
+      if (level <= 1) continue;
+
+      NEIGHBOUR_OFFSETS.forEach(([dx, dy, dz]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        const nz = z + dz;
+        if (this.getStoredLight(nx, ny, nz) === null) return;
+        if (!isTransparent(this.world.getBlock(nx, ny, nz))) return;
+
+        // Full sunlight keeps its strength while travelling straight down
+        const newLevel = channel === 'sky' && dy === -1 && level === MAX_LIGHT ? MAX_LIGHT : level - 1;
+        if (this.getLevel(nx, ny, nz, channel) >= newLevel) return;
+
+        this.setLevel(nx, ny, nz, channel, newLevel);
+        this.markDirty(nx, ny, nz);
+        queue.push(nx, ny, nz);
+      });
+    }
+  }
+
+  // Remove light that came from the queued voxels (flattened x, y, z, old level),
+  // collecting voxels lit from elsewhere so they can flood the cleared area again
+  private unpropagate(queue: number[], channel: LightChannel, refill: number[]): void {
+    for (let head = 0; head < queue.length; head += 4) {
+      const x = queue[head];
+      const y = queue[head + 1];
+      const z = queue[head + 2];
+      const level = queue[head + 3];
+
+      NEIGHBOUR_OFFSETS.forEach(([dx, dy, dz]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        const nz = z + dz;
+        const neighbourLevel = this.getLevel(nx, ny, nz, channel);
+        if (neighbourLevel === 0) return;
+
+        const litFromHere = neighbourLevel < level || (channel === 'sky' && dy === -1 && level === MAX_LIGHT);
+        if (!litFromHere) {
+          refill.push(nx, ny, nz);
+          return;
+        }
+
+        this.setLevel(nx, ny, nz, channel, 0);
+        this.markDirty(nx, ny, nz);
+        queue.push(nx, ny, nz, neighbourLevel);
+
+        // Emitters keep their own light even when the area around them is cleared
+        if (channel === 'block') {
+          const emission = getLightEmission(this.world.getBlock(nx, ny, nz));
+          if (emission > 0) {
+            this.setLevel(nx, ny, nz, 'block', emission);
+            refill.push(nx, ny, nz);
+          }
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,386 @@
+import { BlockType } from './types';
+import { ChunkStorage } from './chunkStorage';
+import { AIR_ID, BLOCK_TYPES, CROSS_SHAPE_BY_ID, TRANSPARENT_BY_ID, getBlockId } from './blocks';
+import { CHUNK_SIZE } from './chunks';
+import { getBlockFaceTile } from './textures';
+
+// The mesher works on the chunk plus a one block border copied from its neighbours,
+// so faces on chunk borders can be culled without looking up other chunks
+export const PADDED_SIZE = CHUNK_SIZE + 2;
+
+// Face normals indexed by face number: right, left, top, bottom, front, back
+// (same order as BoxGeometry and the face indices used for block placement)
+export const FACE_NORMALS = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+];
+
+export interface MeshBuffers {
+  positions: Float32Array;
+  normals: Float32Array;
+  uvs: Float32Array;
+  // Texture atlas tile of each vertex
+  tiles: Float32Array;
+  // Baked light brightness of each vertex
+  colors: Float32Array;
+  indices: Uint32Array;
+}
+
+// Geometry for one chunk, split into render passes
+export interface ChunkMeshData {
+  opaque: MeshBuffers;
+  transparent: MeshBuffers;
+}
+
+// Index of a chunk-local position (-1..CHUNK_SIZE) in a padded volume
+export const paddedIndex = (x: number, y: number, z: number): number => {
+  return (x + 1) + (y + 1) * PADDED_SIZE + (z + 1) * PADDED_SIZE * PADDED_SIZE;
+};
+
+export const createPaddedVolume = (): Uint8Array => new Uint8Array(PADDED_SIZE * PADDED_SIZE * PADDED_SIZE);
+
+/**
+ * Fill a padded volume with block ids: the chunk interior comes from its own storage,
+ * the one block border is sampled from the surrounding world
+ */
+export const fillPaddedVolume = (
+  volume: Uint8Array,
+  chunkX: number,
+  chunkY: number,
+  chunkZ: number,
+  storage: ChunkStorage,
+  getBlock: (x: number, y: number, z: number) => BlockType | null
+): Uint8Array => {
+  const startX = chunkX * CHUNK_SIZE;
+  const startY = chunkY * CHUNK_SIZE;
+  const startZ = chunkZ * CHUNK_SIZE;
+
+  volume.fill(AIR_ID);
+
+  // Interior
+  storage.forEachBlock((x, y, z, type) => {
+    volume[paddedIndex(x, y, z)] = getBlockId(type);
+  });
+
+  // Border shell
+  for (let y = -1; y <= CHUNK_SIZE; y++) {
+    for (let z = -1; z <= CHUNK_SIZE; z++) {
+      for (let x = -1; x <= CHUNK_SIZE; x++) {
+        const isBorder =
+          x === -1 || x === CHUNK_SIZE ||
+          y === -1 || y === CHUNK_SIZE ||
+          z === -1 || z === CHUNK_SIZE;
+        if (!isBorder) continue;
+
+        volume[paddedIndex(x, y, z)] = getBlockId(getBlock(startX + x, startY + y, startZ + z));
+      }
+    }
+  }
+
+  return volume;
+};
+
+// Convert a face normal back to its face index
+export const getFaceFromNormal = (x: number, y: number, z: number): number => {
+  const ax = Math.abs(x);
+  const ay = Math.abs(y);
+  const az = Math.abs(z);
+
+  if (ax >= ay && ax >= az) return x > 0 ? 0 : 1;
+  if (ay >= az) return y > 0 ? 2 : 3;
+  return z > 0 ? 4 : 5;
+};
+
+// Atlas tile per block id and face, indexed as id * 6 + face
+const TILE_BY_ID_FACE = new Int32Array((BLOCK_TYPES.length + 1) * 6);
+BLOCK_TYPES.forEach((type, index) => {
+  for (let face = 0; face < 6; face++) {
+    TILE_BY_ID_FACE[(index + 1) * 6 + face] = getBlockFaceTile(type, face);
+  }
+});
+
+// Brightness for each light level, every level is 20% darker than the one above it
+const LIGHT_CURVE = Array.from({ length: 16 }, (_, level) => Math.max(0.05, Math.pow(0.8, 15 - level)));
+
+// Light level a face receives, the brighter of sky and block light
+const getLightLevel = (packed: number): number => Math.max(packed >> 4, packed & 0x0f);
+
+// Brightness for each ambient occlusion level, from fully enclosed (0) to open (3)
+const OCCLUSION_CURVE = [0.45, 0.65, 0.82, 1.0];
+
+// Occlusion of all four face corners, two bits each, when ambient occlusion is off
+const NO_OCCLUSION = 0xff;
+
+// Corner directions along the face's u and v axes, in the same order as the quad corners
+const CORNER_DIRECTIONS = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+];
+
+// Faces merge when they share a texture tile, light level, corner occlusion and render pass
+const makeFaceKey = (blockId: number, face: number, light: number, occlusion: number): number => {
+  const tileKey = ((TILE_BY_ID_FACE[blockId * 6 + face] + 1) << 4) | light;
+  return (((tileKey << 8) | occlusion) << 1) | (TRANSPARENT_BY_ID[blockId] ? 1 : 0);
+};
+
+/**
+ * Ambient occlusion of a face's four corners, sampled from the layer of cells in front
+ * of the face. Each corner looks at its two edge neighbours and the diagonal between them,
+ * and is fully dark when both edges are solid.
+ */
+const getFaceOcclusion = (volume: Uint8Array, front: number[], u: number, v: number): number => {
+  const sample = [0, 0, 0];
+  const isSolid = (du: number, dv: number): boolean => {
+    sample[0] = front[0];
+    sample[1] = front[1];
+    sample[2] = front[2];
+    sample[u] += du;
+    sample[v] += dv;
+    return !TRANSPARENT_BY_ID[volume[paddedIndex(sample[0], sample[1], sample[2])]];
+  };
+
+  let occlusion = 0;
+  for (let corner = 0; corner < 4; corner++) {
+    const [du, dv] = CORNER_DIRECTIONS[corner];
+    const side1 = isSolid(du, 0);
+    const side2 = isSolid(0, dv);
+    const level = side1 && side2 ? 0 : 3 - (Number(side1) + Number(side2) + Number(isSolid(du, dv)));
+    occlusion |= level << (corner * 2);
+  }
+  return occlusion;
+};
+
+// A face is drawn when it borders air, or a transparent block of a different type
+const isFaceVisible = (blockId: number, neighbourId: number): boolean => {
+  if (neighbourId === AIR_ID) return true;
+  if (!TRANSPARENT_BY_ID[neighbourId]) return false;
+  return neighbourId !== blockId;
+};
+
+// Texture coordinates in block units so textures repeat once per block across merged quads
+const getFaceUV = (face: number, x: number, y: number, z: number): [number, number] => {
+  switch (face) {
+    case 0: return [-z, y];
+    case 1: return [z, y];
+    case 2: return [x, -z];
+    case 3: return [x, z];
+    case 4: return [x, y];
+    default: return [-x, y];
+  }
+};
+
+// Quads waiting to be written, flattened as [face, plane, u, v, width, height, tile, light, occlusion]
+const QUAD_STRIDE = 9;
+
+// Cross shaped blocks waiting to be written, flattened as [x, y, z, tile, light]
+const CROSS_STRIDE = 5;
+
+// The two diagonal planes of a cross shape, as [x, z] start and end points
+const CROSS_PLANES = [
+  [0.15, 0.15, 0.85, 0.85],
+  [0.15, 0.85, 0.85, 0.15],
+];
+
+const writeBuffers = (quads: number[], crosses: number[] = []): MeshBuffers => {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const tiles: number[] = [];
+  const colors: number[] = [];
+  const indices: number[] = [];
+  const corner = [0, 0, 0];
+
+  for (let q = 0; q < quads.length; q += QUAD_STRIDE) {
+    const face = quads[q];
+    const plane = quads[q + 1];
+    const u0 = quads[q + 2];
+    const v0 = quads[q + 3];
+    const width = quads[q + 4];
+    const height = quads[q + 5];
+    const tile = quads[q + 6];
+    const brightness = LIGHT_CURVE[quads[q + 7]];
+    const occlusion = quads[q + 8];
+    const cornerOcclusion = [0, 1, 2, 3].map(corner => (occlusion >> (corner * 2)) & 3);
+
+    const d = face >> 1;
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const normal = FACE_NORMALS[face];
+    const vertexStart = positions.length / 3;
+
+    // Corners go counter-clockwise when viewed from the positive side of the axis
+    const cornerOffsets = [[0, 0], [width, 0], [width, height], [0, height]];
+    cornerOffsets.forEach(([du, dv], index) => {
+      corner[d] = plane;
+      corner[u] = u0 + du;
+      corner[v] = v0 + dv;
+      positions.push(corner[0], corner[1], corner[2]);
+      normals.push(normal[0], normal[1], normal[2]);
+      uvs.push(...getFaceUV(face, corner[0], corner[1], corner[2]));
+      tiles.push(tile);
+      const shade = brightness * OCCLUSION_CURVE[cornerOcclusion[index]];
+      colors.push(shade, shade, shade);
+    });
+
+    // Split the quad along its brighter diagonal, otherwise the interpolated occlusion
+    // shows up as a dark streak across the face
+    const flipDiagonal = cornerOcclusion[1] + cornerOcclusion[3] > cornerOcclusion[0] + cornerOcclusion[2];
+    const triangles = flipDiagonal ? [0, 1, 3, 1, 2, 3] : [0, 1, 2, 0, 2, 3];
+    for (let t = 0; t < triangles.length; t += 3) {
+      if (face % 2 === 0) {
+        indices.push(vertexStart + triangles[t], vertexStart + triangles[t + 1], vertexStart + triangles[t + 2]);
+      } else {
+        indices.push(vertexStart + triangles[t], vertexStart + triangles[t + 2], vertexStart + triangles[t + 1]);
+      }
+    }
+  }
+
+  // Cross shapes are two diagonal quads, each with both sides facing out
+  for (let c = 0; c < crosses.length; c += CROSS_STRIDE) {
+    const x = crosses[c];
+    const y = crosses[c + 1];
+    const z = crosses[c + 2];
+    const tile = crosses[c + 3];
+    const brightness = LIGHT_CURVE[crosses[c + 4]];
+
+    CROSS_PLANES.forEach(([x0, z0, x1, z1]) => {
+      const vertexStart = positions.length / 3;
+      const cornerOffsets = [[x0, 0, z0, 0, 0], [x1, 0, z1, 1, 0], [x1, 1, z1, 1, 1], [x0, 1, z0, 0, 1]];
+
+      cornerOffsets.forEach(([dx, dy, dz, uvU, uvV]) => {
+        positions.push(x + dx, y + dy, z + dz);
+        normals.push(0, 1, 0);
+        uvs.push(uvU, uvV);
+        tiles.push(tile);
+        colors.push(brightness, brightness, brightness);
+      });
+
+      indices.push(vertexStart, vertexStart + 1, vertexStart + 2, vertexStart, vertexStart + 2, vertexStart + 3);
+      indices.push(vertexStart, vertexStart + 2, vertexStart + 1, vertexStart, vertexStart + 3, vertexStart + 2);
+    });
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    uvs: new Float32Array(uvs),
+    tiles: new Float32Array(tiles),
+    colors: new Float32Array(colors),
+    indices: new Uint32Array(indices)
+  };
+};
+
+/**
+ * Build the visible geometry of a chunk from a padded volume of block ids and a matching
+ * volume of packed light values.
+ * Only faces next to air or transparent blocks are emitted, and coplanar faces with the
+ * same texture, light and corner occlusion are merged into larger quads (greedy meshing).
+ */
+export const buildChunkMesh = (
+  volume: Uint8Array,
+  lightVolume: Uint8Array,
+  ambientOcclusion: boolean
+): ChunkMeshData => {
+  const opaqueQuads: number[] = [];
+  const transparentQuads: number[] = [];
+  const crosses: number[] = [];
+  const mask = new Int32Array(CHUNK_SIZE * CHUNK_SIZE);
+  const position = [0, 0, 0];
+
+  // Cross shaped blocks are drawn whole (alpha tested with the opaque pass) and lit by their own cell
+  for (let y = 0; y < CHUNK_SIZE; y++) {
+    for (let z = 0; z < CHUNK_SIZE; z++) {
+      for (let x = 0; x < CHUNK_SIZE; x++) {
+        const index = paddedIndex(x, y, z);
+        const blockId = volume[index];
+        if (!CROSS_SHAPE_BY_ID[blockId]) continue;
+
+        crosses.push(x, y, z, TILE_BY_ID_FACE[blockId * 6], getLightLevel(lightVolume[index]));
+      }
+    }
+  }
+
+  for (let face = 0; face < 6; face++) {
+    const d = face >> 1;
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const step = face % 2 === 0 ? 1 : -1;
+
+    for (let slice = 0; slice < CHUNK_SIZE; slice++) {
+      // Build the mask of visible faces in this slice
+      let n = 0;
+      for (let j = 0; j < CHUNK_SIZE; j++) {
+        for (let i = 0; i < CHUNK_SIZE; i++) {
+          position[d] = slice;
+          position[u] = i;
+          position[v] = j;
+          const blockId = volume[paddedIndex(position[0], position[1], position[2])];
+
+          let key = 0;
+          if (blockId !== AIR_ID && !CROSS_SHAPE_BY_ID[blockId]) {
+            position[d] += step;
+            const neighbourIndex = paddedIndex(position[0], position[1], position[2]);
+            const neighbourId = volume[neighbourIndex];
+            if (isFaceVisible(blockId, neighbourId)) {
+              // A face is lit by the cell in front of it
+              const occlusion = ambientOcclusion ? getFaceOcclusion(volume, position, u, v) : NO_OCCLUSION;
+              key = makeFaceKey(blockId, face, getLightLevel(lightVolume[neighbourIndex]), occlusion);
+            }
+          }
+          mask[n++] = key;
+        }
+      }
+
+      // Merge runs of equal keys into rectangles
+      const plane = step > 0 ? slice + 1 : slice;
+      n = 0;
+      for (let j = 0; j < CHUNK_SIZE; j++) {
+        for (let i = 0; i < CHUNK_SIZE;) {
+          const key = mask[n];
+          if (key === 0) {
+            i++;
+            n++;
+            continue;
+          }
+
+          let width = 1;
+          while (i + width < CHUNK_SIZE && mask[n + width] === key) {
+            width++;
+          }
+
+          let height = 1;
+          growHeight: while (j + height < CHUNK_SIZE) {
+            for (let k = 0; k < width; k++) {
+              if (mask[n + k + height * CHUNK_SIZE] !== key) break growHeight;
+            }
+            height++;
+          }
+
+          const quads = key & 1 ? transparentQuads : opaqueQuads;
+          quads.push(face, plane, i, j, width, height, (key >> 13) - 1, (key >> 9) & 0x0f, (key >> 1) & 0xff);
+
+          // Clear the merged area so it isn't emitted twice
+          for (let h = 0; h < height; h++) {
+            for (let k = 0; k < width; k++) {
+              mask[n + k + h * CHUNK_SIZE] = 0;
+            }
+          }
+
+          i += width;
+          n += width;
+        }
+      }
+    }
+  }
+
+  return {
+    opaque: writeBuffers(opaqueQuads, crosses),
+    transparent: writeBuffers(transparentQuads)
+  };
+};
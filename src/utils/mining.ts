@@ -0,0 +1,66 @@
+import { BlockType } from './types';
+import { BLOCK_PROPERTIES } from './blocks';
+
+// Kinds of tool, each one mines some blocks faster than bare hands
+export type ToolType = 'pickaxe' | 'axe' | 'shovel';
+
+// What a tool is made of, from weakest to strongest
+export type ToolTier = 'wooden' | 'stone' | 'iron';
+
+export const TOOL_TYPES: ToolType[] = ['pickaxe', 'axe', 'shovel'];
+
+interface ToolTierProperties {
+  // Higher tiers harvest everything lower tiers do
+  level: number;
+  // Mining speed multiplier on blocks that prefer the tool
+  speed: number;
+  // Blocks a tool can break before it wears out
+  durability: number;
+}
+
+export const TOOL_TIERS: Record<ToolTier, ToolTierProperties> = {
+  wooden: { level: 1, speed: 2, durability: 60 },
+  stone: { level: 2, speed: 4, durability: 132 },
+  iron: { level: 3, speed: 6, durability: 251 }
+};
+
+// What the player is mining with
+export interface MiningTool {
+  type: ToolType;
+  tier: ToolTier;
+}
+
+// Seconds to mine one point of hardness by hand, or with a tool that can harvest the block
+export const SECONDS_PER_HARDNESS = 1.5;
+
+// Seconds per point of hardness when the block won't drop anything, mining it is slow work
+export const SECONDS_PER_HARDNESS_UNHARVESTABLE = 5;
+
+// Crack overlay stages shown on a block while it's being mined
+export const CRACK_STAGES = 10;
+
+// Whether breaking a block with a tool drops it, some need a preferred tool of a minimum tier
+export const canHarvest = (type: BlockType, tool: MiningTool | null): boolean => {
+  const { harvestTier, preferredTool } = BLOCK_PROPERTIES[type];
+  if (harvestTier === null) return true;
+  return tool !== null && tool.type === preferredTool && TOOL_TIERS[tool.tier].level >= TOOL_TIERS[harvestTier].level;
+};
+
+// Blocks that break at once don't wear out the tool breaking them
+export const wearsTool = (type: BlockType): boolean => BLOCK_PROPERTIES[type].hardness > 0;
+
+/**
+ * Seconds it takes to mine a block: 0 for blocks that break on the first hit, Infinity
+ * for blocks that can't be mined at all.
+ */
+export const getMiningTime = (type: BlockType, tool: MiningTool | null): number => {
+  const { hardness, preferredTool } = BLOCK_PROPERTIES[type];
+  const speed = tool && tool.type === preferredTool ? TOOL_TIERS[tool.tier].speed : 1;
+  const secondsPerHardness = canHarvest(type, tool) ? SECONDS_PER_HARDNESS : SECONDS_PER_HARDNESS_UNHARVESTABLE;
+  return (hardness * secondsPerHardness) / speed;
+};
+
+// Crack stage for mining progress from 0 to 1
+export const getCrackStage = (progress: number): number => {
+  return Math.min(CRACK_STAGES - 1, Math.floor(progress * CRACK_STAGES));
+};
@@ -1,78 +1,419 @@
 import { createNoise2D, createNoise3D, NoiseFunction2D, NoiseFunction3D } from 'simplex-noise';
-import { BlockType } from './types';
+import { BlockType, ChunkData } from './types';
+import { ChunkStorage } from './chunkStorage';
+import { BIOMES, Biome, Climate, getBiomeWeights, selectBiome } from './biomes';
+import { CHUNK_SIZE } from './chunks';
+import { ChunkColumnFeatures, MAX_FEATURE_RADIUS, getFeatureBlockKey, placeChunkColumnFeatures } from './features';
+import { CaveCarver } from './caves';
+import { Hydrology } from './hydrology';
+import { STRUCTURE_TEMPLATES, StructureGenerator, StructureTemplate } from './structures';
+import type { WorldGenerator } from './worldTypes';
+import { createRandom, createSeed32 } from './random';
+import { ColumnCache } from './columnCache';
+import { DEFAULT_ORES, OreSettings, getOreBlockIndex, placeChunkOres } from './ores';
 
-export class TerrainGenerator {
+// Revisions of the generation algorithm. Worlds keep the revision they were created with,
+// so older ones are kept working unchanged: 1 is the plain hills of the first worlds, before
+// biomes, caves, ores, water and structures.
+export const LEGACY_GENERATOR_VERSION = 1;
+export const CURRENT_GENERATOR_VERSION = 2;
+
+// Water fills every column up to this height, unless the settings choose another level
+export const SEA_LEVEL = 12;
+
+// Climate noise frequencies, continents vary more slowly than temperature and humidity
+const CLIMATE_SCALE = 0.002;
+const CONTINENT_SCALE = 0.0015;
+
+// Columns this far below or above sea level become beach
+const BEACH_DEPTH = 2;
+const BEACH_HEIGHT = 1;
+
+// Decorated chunk columns kept for block queries and neighbouring chunks
+const MAX_CACHED_FEATURE_COLUMNS = 256;
+
+// Chunks whose ore veins are kept for block queries
+const MAX_CACHED_ORE_CHUNKS = 512;
+
+// Chunk columns whose sampled terrain columns are kept, well beyond the render distance
+const MAX_CACHED_TERRAIN_COLUMNS = 512;
+
+export interface TerrainColumn {
+  height: number;
+  biome: Biome;
+  // Water surface over the column, the sea level or the level of a lake
+  waterLevel: number;
+}
+
+// Tunable parts of world generation, the same settings and seed always give the same world
+export interface GeneratorSettings {
+  // Revision of the generation algorithm
+  version: number;
+  seaLevel: number;
+  // Multiplies how far the land rises above and sinks below sea level
+  heightScale: number;
+  ores: OreSettings[];
+  // Templates structures are built from, none to leave the world untouched
+  structures: StructureTemplate[];
+}
+
+export const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = {
+  version: CURRENT_GENERATOR_VERSION,
+  seaLevel: SEA_LEVEL,
+  heightScale: 1,
+  ores: DEFAULT_ORES,
+  structures: STRUCTURE_TEMPLATES
+};
+
+export class TerrainGenerator implements WorldGenerator {
   private noise2D: NoiseFunction2D;
-  private noise3D: NoiseFunction3D;
+  private temperatureNoise: NoiseFunction2D;
+  private humidityNoise: NoiseFunction2D;
+  private continentalnessNoise: NoiseFunction2D;
+  private caves: CaveCarver;
+  private hydrology: Hydrology;
+  private structures: StructureGenerator;
   private seed: string;
+  private featureSeed: number;
+  private featureColumns: Map<string, ChunkColumnFeatures> = new Map();
+  private oreChunks: Map<string, Map<number, BlockType>> = new Map();
+  private terrainColumns: ColumnCache<TerrainColumn> = new ColumnCache(CHUNK_SIZE, MAX_CACHED_TERRAIN_COLUMNS);
+  private settings: GeneratorSettings;
 
-  constructor(seed: string) {
+  constructor(seed: string, settings: GeneratorSettings = DEFAULT_GENERATOR_SETTINGS) {
     this.seed = seed;
+    this.settings = settings;
     // Initialize noise generators with seed
-    const seedNum = this.hashSeed(seed);
-    this.noise2D = createNoise2D(() => seedNum);
-    this.noise3D = createNoise3D(() => seedNum);
+    this.noise2D = this.createFieldNoise('terrain');
+    this.temperatureNoise = this.createFieldNoise('temperature');
+    this.humidityNoise = this.createFieldNoise('humidity');
+    this.continentalnessNoise = this.createFieldNoise('continentalness');
+    this.caves = new CaveCarver({
+      tunnelA: this.createFieldNoise3D('tunnel-a'),
+      tunnelB: this.createFieldNoise3D('tunnel-b'),
+      cavern: this.createFieldNoise3D('cavern'),
+      entrance: this.createFieldNoise('cave-entrance'),
+      aquifer: this.createFieldNoise('aquifer')
+    });
+    this.featureSeed = createSeed32(`${seed}:features`);
+    this.hydrology = new Hydrology(
+      this.createFieldNoise('rivers'),
+      this.createFieldNoise('river-warp'),
+      this.featureSeed,
+      settings.seaLevel
+    );
+    this.structures = new StructureGenerator(this.featureSeed, settings.structures);
   }
 
-  // Convert string seed to a number
-  private hashSeed(seed: string): number {
-    let hash = 0;
-    for (let i = 0; i < seed.length; i++) {
-      const char = seed.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
-    }
-    return Math.abs(hash) / 2147483647; // Normalize to 0-1
+  // Terrain, climate and cave noise fields, one independent permutation each
+  private createFieldNoise(salt: string): NoiseFunction2D {
+    return createNoise2D(createRandom(`${this.seed}:${salt}`));
+  }
+
+  private createFieldNoise3D(salt: string): NoiseFunction3D {
+    return createNoise3D(createRandom(`${this.seed}:${salt}`));
+  }
+
+  // Climate of a column, sampled at a much lower frequency than the terrain so biomes are large
+  public getClimate(x: number, z: number): Climate {
+    return {
+      temperature: this.temperatureNoise(x * CLIMATE_SCALE, z * CLIMATE_SCALE),
+      humidity: this.humidityNoise(x * CLIMATE_SCALE, z * CLIMATE_SCALE),
+      continentalness: this.continentalnessNoise(x * CONTINENT_SCALE, z * CONTINENT_SCALE)
+    };
+  }
+
+  // Biome a column belongs to, for surface blocks and for other systems (spawning, tinting, weather)
+  public getBiome(x: number, z: number): Biome {
+    return selectBiome(this.getClimate(x, z));
   }
 
   // Generate the height at a given x, z coordinate
   public getHeight(x: number, z: number): number {
+    return this.getColumn(x, z).height;
+  }
+
+  // Height, biome and water level of a column, sampled once and then cached
+  public getColumn(x: number, z: number): TerrainColumn {
+    // Invalid coordinates would share a cache slot with real ones
+    if (!Number.isInteger(x) || !Number.isInteger(z)) {
+      return this.sampleColumn(x, z);
+    }
+    return this.terrainColumns.get(x, z, (columnX, columnZ) => this.sampleColumn(columnX, columnZ));
+  }
+
+  // Height blends the curves of nearby biomes so borders are smooth, then rivers and lakes
+  // are dug into it
+  private sampleColumn(x: number, z: number): TerrainColumn {
     try {
-      // Calculate base terrain height (hills and valleys)
-      const scale1 = 0.01;
-      const scale2 = 0.05;
-      const scale3 = 0.2;
-      
       // Check for invalid coordinates
       if (!isFinite(x) || !isFinite(z) || isNaN(x) || isNaN(z)) {
         console.error(`[TERRAIN] Invalid coordinates: x=${x}, z=${z}`);
-        return 10; // Default height
+        return { height: 10, biome: BIOMES.plains, waterLevel: this.settings.seaLevel }; // Default height
       }
       
-      const elevation = 
-        (this.noise2D(x * scale1, z * scale1) * 0.7 + 0.7) * 10 + // Large hills
-        (this.noise2D(x * scale2, z * scale2) * 0.3) * 5 + // Medium details
-        (this.noise2D(x * scale3, z * scale3) * 0.1) * 2; // Small details
+      const climate = this.getClimate(x, z);
+      let elevation = this.getLandElevation(x, z, climate);
       
       // Validate the result
       if (isNaN(elevation) || !isFinite(elevation)) {
         console.error(`[TERRAIN] Invalid elevation calculated for x=${x}, z=${z}: ${elevation}`);
-        return 10; // Default height
+        return { height: 10, biome: BIOMES.plains, waterLevel: this.settings.seaLevel }; // Default height
       }
       
-      return Math.floor(elevation) + 10; // Add base height and round to integer
+      const lake = this.hydrology.getLake(x, z, (landX, landZ) => this.getLandElevation(landX, landZ, this.getClimate(landX, landZ)));
+      if (lake) {
+        elevation = this.hydrology.digLake(x, z, elevation, lake);
+      }
+      
+      const height = Math.floor(elevation);
+      const biome = selectBiome(climate);
+      const waterLevel = this.hydrology.getWaterLevel(x, z, lake);
+      
+      // Lowland next to the sea, a river or a lake becomes beach, whatever the climate
+      if (biome.id !== 'mountains' && height >= waterLevel - BEACH_DEPTH && height <= waterLevel + BEACH_HEIGHT) {
+        return { height, biome: BIOMES.beach, waterLevel };
+      }
+      
+      return { height, biome, waterLevel };
     } catch (error) {
       console.error(`[TERRAIN] Error generating height at x=${x}, z=${z}:`, error);
-      return 10; // Default fallback height
+      return { height: 10, biome: BIOMES.plains, waterLevel: this.settings.seaLevel }; // Default fallback height
     }
   }
 
+  // Terrain height before lakes: the blended biome curves with river channels carved in
+  private getLandElevation(x: number, z: number, climate: Climate): number {
+    // Calculate terrain detail (hills and valleys), roughly -1 to 1
+    const scale1 = 0.01;
+    const scale2 = 0.05;
+    const scale3 = 0.2;
+    
+    const detail = 
+      this.noise2D(x * scale1, z * scale1) * 0.7 + // Large hills
+      this.noise2D(x * scale2, z * scale2) * 0.2 + // Medium details
+      this.noise2D(x * scale3, z * scale3) * 0.1; // Small details
+    
+    let elevation = 0;
+    getBiomeWeights(climate).forEach(({ biome, weight }) => {
+      elevation += weight * (biome.baseHeight + biome.heightVariation * detail);
+    });
+    
+    const { seaLevel, heightScale } = this.settings;
+    elevation = seaLevel + (elevation - seaLevel) * heightScale;
+    
+    return this.hydrology.carveRiver(x, z, elevation, climate.continentalness);
+  }
+
   // Determine block type at a given position
   public getBlockType(x: number, y: number, z: number): BlockType | null {
-    const terrainHeight = this.getHeight(x, z);
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkY = Math.floor(y / CHUNK_SIZE);
+    const chunkZ = Math.floor(z / CHUNK_SIZE);
+
+    // Trees, plants and structures sit on top of everything else
+    const features = this.getChunkColumnFeatures(chunkX, chunkZ);
+    const featureBlock = features.blocks.get(getFeatureBlockKey(x - chunkX * CHUNK_SIZE, y, z - chunkZ * CHUNK_SIZE, CHUNK_SIZE));
+    if (featureBlock !== undefined) return featureBlock;
+
+    const terrainBlock = this.getColumnBlockType(x, y, z, this.getColumn(x, z));
+    if (!terrainBlock) return null;
+
+    const ores = this.getChunkOres(chunkX, chunkY, chunkZ);
+    return ores.get(getOreBlockIndex(x - chunkX * CHUNK_SIZE, y - chunkY * CHUNK_SIZE, z - chunkZ * CHUNK_SIZE, CHUNK_SIZE)) ?? terrainBlock;
+  }
+
+  // Highest generated block of a column, trees, plants and structures included
+  public getColumnTop(x: number, z: number): number {
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkZ = Math.floor(z / CHUNK_SIZE);
+    const featureTop = this.getChunkColumnFeatures(chunkX, chunkZ).tops[(z - chunkZ * CHUNK_SIZE) * CHUNK_SIZE + x - chunkX * CHUNK_SIZE];
+    return Math.max(this.getHeight(x, z), featureTop);
+  }
+
+  // Trees, plants and structures reaching into a chunk column, placed after the terrain
+  private getChunkColumnFeatures(chunkX: number, chunkZ: number): ChunkColumnFeatures {
+    const key = `${chunkX},${chunkZ}`;
+    let features = this.featureColumns.get(key);
+
+    if (!features) {
+      const getColumn = (x: number, z: number) => this.getColumn(x, z);
+      features = placeChunkColumnFeatures(
+        this.featureSeed,
+        chunkX,
+        chunkZ,
+        CHUNK_SIZE,
+        getColumn,
+        (x, y, z, column) => this.getColumnBlockType(x, y, z, column),
+        (x, z) => this.structures.isNearStructure(x, z, MAX_FEATURE_RADIUS, getColumn)
+      );
+      this.structures.placeInChunkColumn(features, chunkX, chunkZ, CHUNK_SIZE, getColumn);
+
+      // Forget the oldest column once the cache is full
+      if (this.featureColumns.size >= MAX_CACHED_FEATURE_COLUMNS) {
+        this.featureColumns.delete(this.featureColumns.keys().next().value!);
+      }
+      this.featureColumns.set(key, features);
+    }
+
+    return features;
+  }
+
+  // Ore veins of a chunk, placed after the terrain and caves
+  private getChunkOres(chunkX: number, chunkY: number, chunkZ: number): Map<number, BlockType> {
+    const key = `${chunkX},${chunkY},${chunkZ}`;
+    let ores = this.oreChunks.get(key);
+
+    if (!ores) {
+      ores = placeChunkOres(
+        this.featureSeed,
+        chunkX,
+        chunkY,
+        chunkZ,
+        CHUNK_SIZE,
+        this.settings.ores,
+        (x, y, z) => this.getColumnBlockType(x, y, z, this.getColumn(x, z))
+      );
+
+      if (this.oreChunks.size >= MAX_CACHED_ORE_CHUNKS) {
+        this.oreChunks.delete(this.oreChunks.keys().next().value!);
+      }
+      this.oreChunks.set(key, ores);
+    }
+
+    return ores;
+  }
+
+  // Block at a height within an already sampled column, with caves carved out of the ground
+  private getColumnBlockType(x: number, y: number, z: number, column: TerrainColumn): BlockType | null {
+    const { height, biome, waterLevel } = column;
     
     // Air above ground
-    if (y > terrainHeight) {
+    if (y > height) {
       // Water level
-      if (y <= 12 && terrainHeight < 12) {
-        return 'water';
+      return y <= waterLevel ? 'water' : null;
+    }
+    
+    if (this.caves.isCarved(x, y, z, height, waterLevel)) {
+      return this.caves.getCaveFill(x, y, z);
+    }
+    
+    // Ground blocks, grassy biomes turn to sand along the water
+    if (y === height) {
+      if (height <= waterLevel && biome.surfaceBlock === 'grass') return 'sand';
+      return biome.surfaceBlock;
+    }
+    
+    // Underground blocks
+    if (y < height - biome.subsurfaceDepth) {
+      return 'stone';
+    } else {
+      return biome.subsurfaceBlock;
+    }
+  }
+
+  // Generate a chunk of blocks at a given position
+  public generateChunk(chunkX: number, chunkY: number, chunkZ: number, chunkSize: number): ChunkData {
+    const storage = new ChunkStorage();
+    const startX = chunkX * chunkSize;
+    const startY = chunkY * chunkSize;
+    const startZ = chunkZ * chunkSize;
+    
+    for (let x = 0; x < chunkSize; x++) {
+      for (let z = 0; z < chunkSize; z++) {
+        const column = this.getColumn(startX + x, startZ + z);
+        // Columns below their water level are filled with water up to it
+        const maxHeight = Math.min(Math.max(column.height, column.waterLevel), startY + chunkSize - 1);
+        
+        for (let y = 0; startY + y <= maxHeight; y++) {
+          const blockType = this.getColumnBlockType(startX + x, startY + y, startZ + z, column);
+          if (blockType) {
+            storage.set(x, y, z, blockType);
+          }
+        }
+      }
+    }
+    
+    // Veins of ore through the ground, then the trees, plants and structures that reach into this chunk
+    if (chunkSize === CHUNK_SIZE) {
+      this.getChunkOres(chunkX, chunkY, chunkZ).forEach((type, index) => {
+        storage.set(index % chunkSize, Math.floor(index / (chunkSize * chunkSize)), Math.floor(index / chunkSize) % chunkSize, type);
+      });
+
+      const features = this.getChunkColumnFeatures(chunkX, chunkZ);
+      for (let x = 0; x < chunkSize; x++) {
+        for (let z = 0; z < chunkSize; z++) {
+          if (features.tops[z * chunkSize + x] < startY) continue;
+          
+          for (let y = 0; y < chunkSize; y++) {
+            const type = features.blocks.get(getFeatureBlockKey(x, startY + y, z, chunkSize));
+            if (type !== undefined) storage.set(x, y, z, type);
+          }
+        }
       }
-      return null;
     }
     
-    // Ground blocks
+    return {
+      position: { x: chunkX, y: chunkY, z: chunkZ },
+      storage
+    };
+  }
+}
+
+/**
+ * Generator version 1: rolling hills of stone under dirt and grass, sand in the lowlands.
+ * It must keep producing exactly the terrain the first worlds were saved on, do not change it.
+ */
+export class LegacyTerrainGenerator implements WorldGenerator {
+  private noise2D: NoiseFunction2D;
+  private noise3D: NoiseFunction3D;
+
+  constructor(seed: string) {
+    // Every shuffle step gets the same number, the worlds of this version were made that way
+    const seedNum = this.hashSeed(seed);
+    this.noise2D = createNoise2D(() => seedNum);
+    this.noise3D = createNoise3D(() => seedNum);
+  }
+
+  // Convert string seed to a number
+  private hashSeed(seed: string): number {
+    let hash = 0;
+    for (let i = 0; i < seed.length; i++) {
+      const char = seed.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash; // Convert to 32bit integer
+    }
+    return Math.abs(hash) / 2147483647; // Normalize to 0-1
+  }
+
+  public getHeight(x: number, z: number): number {
+    const scale1 = 0.01;
+    const scale2 = 0.05;
+    const scale3 = 0.2;
+    
+    const elevation = 
+      (this.noise2D(x * scale1, z * scale1) * 0.7 + 0.7) * 10 + // Large hills
+      (this.noise2D(x * scale2, z * scale2) * 0.3) * 5 + // Medium details
+      (this.noise2D(x * scale3, z * scale3) * 0.1) * 2; // Small details
+    
+    return Math.floor(elevation) + 10;
+  }
+
+  public getColumnTop(x: number, z: number): number {
+    return this.getHeight(x, z);
+  }
+
+  public getBiome(): Biome {
+    return BIOMES.plains;
+  }
+
+  // Nothing above the ground, chunks of this version never had water
+  public getBlockType(x: number, y: number, z: number): BlockType | null {
+    const terrainHeight = this.getHeight(x, z);
+    if (y > terrainHeight) return null;
+    
+    // Surface block from the height and some noise
     if (y === terrainHeight) {
-      // Determine surface block based on height and some noise
       const surfaceNoise = this.noise3D(x * 0.1, y * 0.1, z * 0.1);
       
       if (terrainHeight > 15) {
@@ -84,40 +425,23 @@ export class TerrainGenerator {
       }
     }
     
-    // Underground blocks
-    if (y < terrainHeight - 3) {
-      return 'stone';
-    } else {
-      return 'dirt';
-    }
+    return y < terrainHeight - 3 ? 'stone' : 'dirt';
   }
 
-  // Generate a chunk of blocks at a given position
-  public generateChunk(chunkX: number, chunkY: number, chunkZ: number, chunkSize: number) {
-    const blocks = [];
+  public generateChunk(chunkX: number, chunkY: number, chunkZ: number, chunkSize: number): ChunkData {
+    const storage = new ChunkStorage();
     const startX = chunkX * chunkSize;
     const startY = chunkY * chunkSize;
     const startZ = chunkZ * chunkSize;
     
     for (let x = 0; x < chunkSize; x++) {
       for (let z = 0; z < chunkSize; z++) {
-        const worldX = startX + x;
-        const worldZ = startZ + z;
-        const maxHeight = Math.min(this.getHeight(worldX, worldZ), startY + chunkSize);
+        const maxHeight = Math.min(this.getHeight(startX + x, startZ + z), startY + chunkSize - 1);
         
-        for (let y = 0; y < chunkSize; y++) {
-          const worldY = startY + y;
-          
-          if (worldY <= maxHeight) {
-            const blockType = this.getBlockType(worldX, worldY, worldZ);
-            if (blockType) {
-              blocks.push({
-                x: worldX,
-                y: worldY,
-                z: worldZ,
-                type: blockType
-              });
-            }
+        for (let y = 0; startY + y <= maxHeight; y++) {
+          const blockType = this.getBlockType(startX + x, startY + y, startZ + z);
+          if (blockType) {
+            storage.set(x, y, z, blockType);
           }
         }
       }
@@ -125,7 +449,13 @@ export class TerrainGenerator {
     
     return {
       position: { x: chunkX, y: chunkY, z: chunkZ },
-      blocks
+      storage
     };
   }
-} 
\ No newline at end of file
+}
+
+// Terrain generator for the version in the settings
+export const createTerrainGenerator = (seed: string, settings: GeneratorSettings = DEFAULT_GENERATOR_SETTINGS): WorldGenerator => {
+  if (settings.version === LEGACY_GENERATOR_VERSION) return new LegacyTerrainGenerator(seed);
+  return new TerrainGenerator(seed, settings);
+};
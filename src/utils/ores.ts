@@ -0,0 +1,95 @@
+import { BlockType } from './types';
+
+// How one kind of ore or mineral is spread through the ground
+export interface OreSettings {
+  type: BlockType;
+  // World heights veins can start and grow in, inclusive
+  minY: number;
+  maxY: number;
+  // Blocks a vein tries to place as it wanders
+  veinSize: number;
+  // Average veins per chunk, fractions give a chance of one more vein
+  veinsPerChunk: number;
+  // Terrain blocks a vein may replace
+  replaces: BlockType[];
+}
+
+// Common ores first, later entries overwrite earlier ones where veins cross
+export const DEFAULT_ORES: OreSettings[] = [
+  { type: 'gravel', minY: -64, maxY: 40, veinSize: 24, veinsPerChunk: 1.5, replaces: ['stone', 'dirt'] },
+  { type: 'clay', minY: -8, maxY: 14, veinSize: 16, veinsPerChunk: 1, replaces: ['sand', 'dirt'] },
+  { type: 'coal_ore', minY: -64, maxY: 64, veinSize: 12, veinsPerChunk: 5, replaces: ['stone'] },
+  { type: 'iron_ore', minY: -64, maxY: 24, veinSize: 8, veinsPerChunk: 3, replaces: ['stone'] },
+  { type: 'gold_ore', minY: -64, maxY: -16, veinSize: 6, veinsPerChunk: 0.8, replaces: ['stone'] },
+  { type: 'diamond_ore', minY: -64, maxY: -40, veinSize: 4, veinsPerChunk: 0.4, replaces: ['stone'] },
+];
+
+// Random sequence for one vein, the same for every query of that chunk
+const createVeinRandom = (seed: number, chunkX: number, chunkY: number, chunkZ: number, salt: number): () => number => {
+  let state = seed ^ Math.imul(chunkX, 0x27d4eb2d) ^ Math.imul(chunkY, 0x5bd1e995) ^ Math.imul(chunkZ, 0x165667b1) ^ Math.imul(salt, 0x9e3779b9);
+
+  // Mulberry32
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Index of a block inside a chunk, the key of the ore map
+export const getOreBlockIndex = (localX: number, localY: number, localZ: number, size: number): number => {
+  return (localY * size + localZ) * size + localX;
+};
+
+/**
+ * Ore veins inside one chunk, keyed by local block index. Each vein is a random walk
+ * that stays inside its chunk, so a chunk's ores never depend on its neighbours.
+ */
+export const placeChunkOres = (
+  seed: number,
+  chunkX: number,
+  chunkY: number,
+  chunkZ: number,
+  size: number,
+  ores: OreSettings[],
+  getTerrainBlock: (x: number, y: number, z: number) => BlockType | null
+): Map<number, BlockType> => {
+  const blocks = new Map<number, BlockType>();
+  const startX = chunkX * size;
+  const startY = chunkY * size;
+  const startZ = chunkZ * size;
+
+  ores.forEach((ore, oreIndex) => {
+    // Part of the chunk inside the ore's height range
+    const minLocalY = Math.max(0, ore.minY - startY);
+    const maxLocalY = Math.min(size - 1, ore.maxY - startY);
+    if (minLocalY > maxLocalY) return;
+
+    const random = createVeinRandom(seed, chunkX, chunkY, chunkZ, oreIndex);
+    const veinCount = Math.floor(ore.veinsPerChunk) + (random() < ore.veinsPerChunk % 1 ? 1 : 0);
+
+    for (let vein = 0; vein < veinCount; vein++) {
+      let x = Math.floor(random() * size);
+      let y = minLocalY + Math.floor(random() * (maxLocalY - minLocalY + 1));
+      let z = Math.floor(random() * size);
+
+      for (let step = 0; step < ore.veinSize; step++) {
+        const terrain = getTerrainBlock(startX + x, startY + y, startZ + z);
+        if (terrain !== null && ore.replaces.includes(terrain)) {
+          blocks.set(getOreBlockIndex(x, y, z, size), ore.type);
+        }
+
+        // Wander one block along a random axis, staying in the chunk and height range
+        const direction = random() < 0.5 ? -1 : 1;
+        const axis = Math.floor(random() * 3);
+        if (axis === 0) x = Math.min(size - 1, Math.max(0, x + direction));
+        else if (axis === 1) y = Math.min(maxLocalY, Math.max(minLocalY, y + direction));
+        else z = Math.min(size - 1, Math.max(0, z + direction));
+      }
+    }
+  });
+
+  return blocks;
+};
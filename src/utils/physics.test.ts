@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CollisionWorld,
+  GRAVITY,
+  JUMP_VELOCITY,
+  PHYSICS_TICK_SECONDS,
+  PLAYER_HEIGHT,
+  PlayerBody,
+  PlayerInput,
+  STEP_HEIGHT,
+  createPlayerBody,
+  moveAndCollide,
+  stepPlayer
+} from './physics';
+
+// Flat ground filling everything below y = 0, plus any extra solid cells
+const createWorld = (cells: [number, number, number][] = []): CollisionWorld => {
+  const solid = new Set(cells.map(cell => cell.join(',')));
+  return { isSolid: (x, y, z) => y < 0 || solid.has(`${x},${y},${z}`) };
+};
+
+const IDLE: PlayerInput = { forward: 0, right: 0, jump: false, descend: false, flying: false, yaw: 0 };
+
+// A body standing still on the ground at the center of a block
+const standOnGround = (world: CollisionWorld): PlayerBody => {
+  const body = stepPlayer(world, createPlayerBody({ x: 0.5, y: 0, z: 0.5 }), IDLE);
+  expect(body.onGround).toBe(true);
+  return body;
+};
+
+// Jump once, then let go of jump until the body lands again. Returns every tick's body.
+const jump = (world: CollisionWorld, body: PlayerBody): PlayerBody[] => {
+  const ticks = [stepPlayer(world, body, { ...IDLE, jump: true })];
+  while (!ticks[ticks.length - 1].onGround && ticks.length < 600) {
+    ticks.push(stepPlayer(world, ticks[ticks.length - 1], IDLE));
+  }
+  return ticks;
+};
+
+describe('stepPlayer', () => {
+  it('jumps to the height the jump velocity and gravity allow', () => {
+    const world = createWorld();
+    const ticks = jump(world, standOnGround(world));
+    const apex = Math.max(...ticks.map(body => body.position.y));
+
+    // v² / 2g, plus half a tick of rising because the jump tick moves before gravity applies
+    const expected = (JUMP_VELOCITY * JUMP_VELOCITY) / (2 * GRAVITY) + (JUMP_VELOCITY * PHYSICS_TICK_SECONDS) / 2;
+    expect(apex).toBeCloseTo(expected, 2);
+    expect(apex).toBeGreaterThan(1);
+  });
+
+  it('lands on top of a block and stops falling', () => {
+    const world = createWorld([[0, 0, 0]]);
+    let body = createPlayerBody({ x: 0.5, y: 6, z: 0.5 });
+    for (let i = 0; i < 600 && !body.onGround; i++) {
+      body = stepPlayer(world, body, IDLE);
+    }
+
+    expect(body.onGround).toBe(true);
+    expect(body.position.y).toBeCloseTo(1, 3);
+    expect(body.velocity.y).toBe(0);
+    expect(body.fallDistance).toBeCloseTo(5, 3);
+  });
+
+  it('stops rising when the head hits a ceiling', () => {
+    const world = createWorld([[0, 2, 0]]);
+    const ticks = jump(world, standOnGround(world));
+    const bumped = ticks.findIndex(body => body.velocity.y === 0 && !body.onGround);
+    const apex = Math.max(...ticks.map(body => body.position.y));
+
+    expect(bumped).toBeGreaterThan(0);
+    expect(apex + PLAYER_HEIGHT).toBeLessThanOrEqual(2);
+    expect(apex + PLAYER_HEIGHT).toBeCloseTo(2, 3);
+    // Falls straight back down after the bump
+    expect(ticks[bumped + 1].position.y).toBeLessThan(ticks[bumped].position.y);
+    expect(ticks[ticks.length - 1].position.y).toBeCloseTo(0, 3);
+  });
+
+  it('gives the same result for the same input', () => {
+    const world = createWorld([[2, 0, -3], [3, 0, -3], [3, 1, -4], [-1, 0, -2], [0, 2, -6]]);
+    const run = () => {
+      const bodies: PlayerBody[] = [];
+      let body = createPlayerBody({ x: 0.5, y: 3, z: 0.5 });
+      for (let i = 0; i < 400; i++) {
+        body = stepPlayer(world, body, {
+          ...IDLE,
+          forward: i % 90 < 60 ? 1 : -0.5,
+          right: Math.sin(i / 17),
+          jump: i % 45 === 0,
+          yaw: i / 50
+        });
+        bodies.push(body);
+      }
+      return bodies;
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
+
+describe('moveAndCollide', () => {
+  it('steps up onto a ledge no higher than the step height', () => {
+    // Standing half a block below the top of the block ahead
+    const world = createWorld([[1, 0, 0]]);
+    const result = moveAndCollide(world, { x: 0.5, y: 1 - STEP_HEIGHT, z: 0.5 }, { x: 0.5, y: -0.01, z: 0 }, true);
+
+    expect(result.position.x).toBeCloseTo(1, 5);
+    expect(result.position.y).toBeCloseTo(1, 3);
+    expect(result.onGround).toBe(true);
+  });
+
+  it('stops at a ledge higher than the step height', () => {
+    const world = createWorld([[1, 0, 0]]);
+    const result = moveAndCollide(world, { x: 0.5, y: 0, z: 0.5 }, { x: 0.5, y: -0.01, z: 0 }, true);
+
+    expect(result.position.x).toBeCloseTo(0.7, 3);
+    expect(result.position.y).toBeCloseTo(0, 3);
+    expect(result.hitWall).toBe(true);
+  });
+});
@@ -0,0 +1,260 @@
+// Player hitbox, in blocks. Positions passed around here are the center of the feet.
+export const PLAYER_WIDTH = 0.6;
+export const PLAYER_HEIGHT = 1.8;
+export const PLAYER_EYE_HEIGHT = 1.62;
+
+// Ledges up to this height are stepped onto while walking instead of blocking
+export const STEP_HEIGHT = 0.5;
+
+// Gap kept between the hitbox and the blocks it rests against, avoids snagging on edges
+const SKIN = 1e-4;
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Axis-aligned box, min inclusive and max exclusive
+export interface AABB {
+  minX: number;
+  minY: number;
+  minZ: number;
+  maxX: number;
+  maxY: number;
+  maxZ: number;
+}
+
+export interface CollisionWorld {
+  isSolid: (x: number, y: number, z: number) => boolean;
+}
+
+export interface MoveResult {
+  position: Vec3;
+  // Motion that was actually applied after collisions
+  motion: Vec3;
+  // Resting on a block below after this move
+  onGround: boolean;
+  // Hit a block above while moving up
+  hitCeiling: boolean;
+  // Horizontal motion was cut short by a wall
+  hitWall: boolean;
+}
+
+export const getPlayerBox = (feet: Vec3): AABB => {
+  const half = PLAYER_WIDTH / 2;
+  return {
+    minX: feet.x - half,
+    minY: feet.y,
+    minZ: feet.z - half,
+    maxX: feet.x + half,
+    maxY: feet.y + PLAYER_HEIGHT,
+    maxZ: feet.z + half
+  };
+};
+
+// Whether a box overlaps the block cell at a position
+export const intersectsBlock = (box: AABB, x: number, y: number, z: number): boolean => {
+  return box.minX < x + 1 && box.maxX > x &&
+    box.minY < y + 1 && box.maxY > y &&
+    box.minZ < z + 1 && box.maxZ > z;
+};
+
+const offsetBox = (box: AABB, dx: number, dy: number, dz: number): AABB => ({
+  minX: box.minX + dx,
+  minY: box.minY + dy,
+  minZ: box.minZ + dz,
+  maxX: box.maxX + dx,
+  maxY: box.maxY + dy,
+  maxZ: box.maxZ + dz
+});
+
+const AXIS_MIN = ['minX', 'minY', 'minZ'] as const;
+const AXIS_MAX = ['maxX', 'maxY', 'maxZ'] as const;
+
+/**
+ * Clip motion along one axis (0 = x, 1 = y, 2 = z) so the box stops at the first solid
+ * block in its path. Blocks the box already overlaps never stop it, so a player stuck
+ * inside a block can always move out.
+ */
+const sweepAxis = (world: CollisionWorld, box: AABB, axis: number, motion: number): number => {
+  if (motion === 0) return 0;
+
+  const minKey = AXIS_MIN[axis];
+  const maxKey = AXIS_MAX[axis];
+
+  // Every cell the box touches on its way
+  const swept = { ...box };
+  if (motion > 0) swept[maxKey] += motion;
+  else swept[minKey] += motion;
+
+  const startX = Math.floor(swept.minX);
+  const startY = Math.floor(swept.minY);
+  const startZ = Math.floor(swept.minZ);
+  const endX = Math.ceil(swept.maxX) - 1;
+  const endY = Math.ceil(swept.maxY) - 1;
+  const endZ = Math.ceil(swept.maxZ) - 1;
+
+  let allowed = motion;
+  for (let x = startX; x <= endX; x++) {
+    for (let y = startY; y <= endY; y++) {
+      for (let z = startZ; z <= endZ; z++) {
+        if (!world.isSolid(x, y, z)) continue;
+
+        const cell = [x, y, z];
+        if (motion > 0) {
+          const distance = cell[axis] - box[maxKey];
+          if (distance >= -SKIN) allowed = Math.min(allowed, Math.max(0, distance - SKIN));
+        } else {
+          const distance = cell[axis] + 1 - box[minKey];
+          if (distance <= SKIN) allowed = Math.max(allowed, Math.min(0, distance + SKIN));
+        }
+      }
+    }
+  }
+
+  return allowed;
+};
+
+// Move a box one axis at a time, vertical first so walking off ledges and landing resolve cleanly
+const sweepBox = (world: CollisionWorld, box: AABB, motion: Vec3): { box: AABB; motion: Vec3 } => {
+  const dy = sweepAxis(world, box, 1, motion.y);
+  box = offsetBox(box, 0, dy, 0);
+  const dx = sweepAxis(world, box, 0, motion.x);
+  box = offsetBox(box, dx, 0, 0);
+  const dz = sweepAxis(world, box, 2, motion.z);
+  box = offsetBox(box, 0, 0, dz);
+
+  return { box, motion: { x: dx, y: dy, z: dz } };
+};
+
+/**
+ * Move the player's hitbox through the voxel world, resolving collisions per axis.
+ * When walking on the ground into a ledge no higher than STEP_HEIGHT, the move is
+ * retried lifted by the step height and kept if it gets further.
+ */
+export const moveAndCollide = (world: CollisionWorld, feet: Vec3, motion: Vec3, wasOnGround: boolean): MoveResult => {
+  const startBox = getPlayerBox(feet);
+  let { box, motion: applied } = sweepBox(world, startBox, motion);
+
+  const blockedHorizontally = applied.x !== motion.x || applied.z !== motion.z;
+  const canStep = (wasOnGround || (applied.y !== motion.y && motion.y < 0)) && blockedHorizontally;
+
+  if (canStep) {
+    // Rise by the step height, move across, then settle back down onto the ledge
+    const up = sweepAxis(world, startBox, 1, STEP_HEIGHT);
+    let stepBox = offsetBox(startBox, 0, up, 0);
+    const stepX = sweepAxis(world, stepBox, 0, motion.x);
+    stepBox = offsetBox(stepBox, stepX, 0, 0);
+    const stepZ = sweepAxis(world, stepBox, 2, motion.z);
+    stepBox = offsetBox(stepBox, 0, 0, stepZ);
+    const down = sweepAxis(world, stepBox, 1, -up + Math.min(0, motion.y));
+    stepBox = offsetBox(stepBox, 0, down, 0);
+
+    if (stepX * stepX + stepZ * stepZ > applied.x * applied.x + applied.z * applied.z) {
+      box = stepBox;
+      applied = { x: stepX, y: up + down, z: stepZ };
+    }
+  }
+
+  const onGround = (motion.y < 0 && applied.y > motion.y) ||
+    (motion.y <= 0 && sweepAxis(world, box, 1, -SKIN * 2) === 0);
+
+  return {
+    position: { x: (box.minX + box.maxX) / 2, y: box.minY, z: (box.minZ + box.maxZ) / 2 },
+    motion: applied,
+    onGround,
+    hitCeiling: motion.y > 0 && applied.y < motion.y,
+    hitWall: applied.x !== motion.x || applied.z !== motion.z
+  };
+};
+
+// Player simulation runs in fixed ticks, independent of the render frame rate
+export const PHYSICS_TICK_RATE = 60;
+export const PHYSICS_TICK_SECONDS = 1 / PHYSICS_TICK_RATE;
+
+// Movement tuning, in blocks and seconds
+export const WALK_SPEED = 7;
+export const GRAVITY = 32;
+export const JUMP_VELOCITY = 9; // Clears a one block ledge
+export const TERMINAL_VELOCITY = 50;
+export const FLY_SPEED = 11;
+export const FLY_VERTICAL_SPEED = 8;
+
+// Player state between ticks, position is the center of the feet
+export interface PlayerBody {
+  position: Vec3;
+  velocity: Vec3;
+  onGround: boolean;
+  // Blocks fallen since last standing on the ground, or flying
+  fallDistance: number;
+}
+
+export interface PlayerInput {
+  // -1 to 1, backward to forward
+  forward: number;
+  // -1 to 1, left to right
+  right: number;
+  jump: boolean;
+  // Sink while flying
+  descend: boolean;
+  // Fly without gravity, jump and descend move up and down
+  flying: boolean;
+  // Heading in radians around the y axis, 0 faces -z like an unrotated camera
+  yaw: number;
+}
+
+export const createPlayerBody = (feet: Vec3): PlayerBody => ({
+  position: { ...feet },
+  velocity: { x: 0, y: 0, z: 0 },
+  onGround: false,
+  fallDistance: 0
+});
+
+/**
+ * Advance the player by one tick of `dt` seconds. Pure: the same body, input and world
+ * always give the same result, whatever the render frame rate was.
+ */
+export const stepPlayer = (
+  world: CollisionWorld,
+  body: PlayerBody,
+  input: PlayerInput,
+  dt: number = PHYSICS_TICK_SECONDS
+): PlayerBody => {
+  // Walking sets horizontal velocity directly, diagonals are no faster
+  const length = Math.hypot(input.forward, input.right);
+  const forward = length > 1 ? input.forward / length : input.forward;
+  const right = length > 1 ? input.right / length : input.right;
+  const sin = Math.sin(input.yaw);
+  const cos = Math.cos(input.yaw);
+  const speed = input.flying ? FLY_SPEED : WALK_SPEED;
+
+  const velocity = {
+    x: (right * cos - forward * sin) * speed,
+    y: Math.max(body.velocity.y - GRAVITY * dt, -TERMINAL_VELOCITY),
+    z: (-right * sin - forward * cos) * speed
+  };
+
+  if (input.flying) {
+    velocity.y = (Number(input.jump) - Number(input.descend)) * FLY_VERTICAL_SPEED;
+  } else if (input.jump && body.onGround) {
+    velocity.y = JUMP_VELOCITY;
+  }
+
+  const result = moveAndCollide(
+    world,
+    body.position,
+    { x: velocity.x * dt, y: velocity.y * dt, z: velocity.z * dt },
+    body.onGround
+  );
+
+  // Landing or hitting a ceiling stops vertical movement
+  if (result.onGround || result.hitCeiling) {
+    velocity.y = 0;
+  }
+
+  // The fall is measured until the tick that lands, so the landing tick still carries it
+  const fallDistance = input.flying || body.onGround ? 0 : body.fallDistance + Math.max(0, -result.motion.y);
+
+  return { position: result.position, velocity, onGround: result.onGround, fallDistance };
+};
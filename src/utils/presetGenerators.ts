@@ -0,0 +1,167 @@
+import { createNoise2D, NoiseFunction2D } from 'simplex-noise';
+import { BlockType, ChunkData } from './types';
+import { ChunkStorage } from './chunkStorage';
+import { BIOMES, Biome } from './biomes';
+import type { FlatLayer, WorldGenerator } from './worldTypes';
+
+// Surface height of the floating island, low enough for the spawn point to be above it
+const ISLAND_TOP = 16;
+
+// Layers of dirt under the island's grass
+const ISLAND_DIRT_DEPTH = 3;
+
+// Void worlds only have a stone platform under the spawn point
+const PLATFORM_Y = 15;
+const PLATFORM_RADIUS = 2;
+
+// Fill a chunk one block at a time, for generators whose blocks are cheap to compute
+const generateChunkFromBlocks = (
+  generator: WorldGenerator,
+  chunkX: number,
+  chunkY: number,
+  chunkZ: number,
+  chunkSize: number
+): ChunkData => {
+  const storage = new ChunkStorage();
+
+  for (let x = 0; x < chunkSize; x++) {
+    for (let z = 0; z < chunkSize; z++) {
+      const worldX = chunkX * chunkSize + x;
+      const worldZ = chunkZ * chunkSize + z;
+      if (generator.getColumnTop(worldX, worldZ) < chunkY * chunkSize) continue;
+
+      for (let y = 0; y < chunkSize; y++) {
+        const type = generator.getBlockType(worldX, chunkY * chunkSize + y, worldZ);
+        if (type) storage.set(x, y, z, type);
+      }
+    }
+  }
+
+  return {
+    position: { x: chunkX, y: chunkY, z: chunkZ },
+    storage
+  };
+};
+
+// Layers of blocks stacked from y = 0, the same everywhere
+export class FlatWorldGenerator implements WorldGenerator {
+  private layers: FlatLayer[];
+  private height: number;
+
+  constructor(layers: FlatLayer[]) {
+    this.layers = layers.filter(layer => layer.thickness > 0);
+    this.height = this.layers.reduce((sum, layer) => sum + layer.thickness, 0);
+  }
+
+  public getBlockType(_x: number, y: number): BlockType | null {
+    if (y < 0) return null;
+
+    let layerTop = 0;
+    for (const layer of this.layers) {
+      layerTop += layer.thickness;
+      if (y < layerTop) return layer.type;
+    }
+    return null;
+  }
+
+  public getColumnTop(): number {
+    return this.height - 1;
+  }
+
+  public getHeight(): number {
+    return this.height - 1;
+  }
+
+  public getBiome(): Biome {
+    return BIOMES.plains;
+  }
+
+  public generateChunk(chunkX: number, chunkY: number, chunkZ: number, chunkSize: number): ChunkData {
+    return generateChunkFromBlocks(this, chunkX, chunkY, chunkZ, chunkSize);
+  }
+}
+
+// One island floating around the origin, with a ragged edge and a rocky underside
+export class FloatingIslandGenerator implements WorldGenerator {
+  private noise: NoiseFunction2D;
+  private radius: number;
+
+  constructor(seed: string, radius: number) {
+    this.radius = radius;
+
+    // Mulberry32 seeded from the world seed, to shuffle the noise permutation
+    let state = 0;
+    for (let i = 0; i < seed.length; i++) state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+    this.noise = createNoise2D(() => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    });
+  }
+
+  // Top and bottom of the island in a column, null off its edge
+  private getColumnRange(x: number, z: number): { top: number; bottom: number } | null {
+    const edge = 1 + this.noise(x * 0.05, z * 0.05) * 0.15;
+    const distance = Math.hypot(x, z) / this.radius;
+    if (distance >= edge) return null;
+
+    // 1 in the middle of the island, 0 at its edge
+    const inset = 1 - distance / edge;
+    const top = ISLAND_TOP + Math.floor(this.noise(x * 0.03 + 100, z * 0.03) * 3 * inset);
+    const thickness = 1 + Math.floor(this.radius * 0.6 * Math.sqrt(inset) + this.noise(x * 0.1, z * 0.1 + 100) * 3 * inset);
+    return { top, bottom: top - thickness };
+  }
+
+  public getBlockType(x: number, y: number, z: number): BlockType | null {
+    const range = this.getColumnRange(x, z);
+    if (!range || y > range.top || y <= range.bottom) return null;
+
+    if (y === range.top) return 'grass';
+    return y >= range.top - ISLAND_DIRT_DEPTH ? 'dirt' : 'stone';
+  }
+
+  public getColumnTop(x: number, z: number): number {
+    return this.getColumnRange(x, z)?.top ?? 0;
+  }
+
+  public getHeight(x: number, z: number): number {
+    return this.getColumnTop(x, z);
+  }
+
+  public getBiome(): Biome {
+    return BIOMES.forest;
+  }
+
+  public generateChunk(chunkX: number, chunkY: number, chunkZ: number, chunkSize: number): ChunkData {
+    return generateChunkFromBlocks(this, chunkX, chunkY, chunkZ, chunkSize);
+  }
+}
+
+// Empty space apart from a platform to spawn on
+export class VoidWorldGenerator implements WorldGenerator {
+  private isOnPlatform(x: number, z: number): boolean {
+    return Math.abs(x) <= PLATFORM_RADIUS && Math.abs(z) <= PLATFORM_RADIUS;
+  }
+
+  public getBlockType(x: number, y: number, z: number): BlockType | null {
+    return y === PLATFORM_Y && this.isOnPlatform(x, z) ? 'stone' : null;
+  }
+
+  public getColumnTop(x: number, z: number): number {
+    return this.isOnPlatform(x, z) ? PLATFORM_Y : 0;
+  }
+
+  public getHeight(x: number, z: number): number {
+    return this.getColumnTop(x, z);
+  }
+
+  public getBiome(): Biome {
+    return BIOMES.plains;
+  }
+
+  public generateChunk(chunkX: number, chunkY: number, chunkZ: number, chunkSize: number): ChunkData {
+    return generateChunkFromBlocks(this, chunkX, chunkY, chunkZ, chunkSize);
+  }
+}
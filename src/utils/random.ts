@@ -0,0 +1,61 @@
+// 128-bit hash of a string (cyrb128), as four 32-bit words
+export const hashString128 = (value: string): [number, number, number, number] => {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ char, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ char, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ char, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ char, 2716044179);
+  }
+
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+};
+
+const rotateLeft = (value: number, bits: number): number => {
+  return (value << bits) | (value >>> (32 - bits));
+};
+
+/**
+ * Seeded random numbers in [0, 1) from a xoshiro128** stream, its state taken from the
+ * 128-bit hash of the seed. Different seeds, even ones differing in a single character,
+ * give unrelated streams.
+ */
+export const createRandom = (seed: string): (() => number) => {
+  let [a, b, c, d] = hashString128(seed);
+
+  // An all-zero state would only ever produce zeros
+  if ((a | b | c | d) === 0) a = 1;
+
+  return () => {
+    const result = Math.imul(rotateLeft(Math.imul(b, 5), 7), 9) >>> 0;
+    const t = b << 9;
+
+    c ^= a;
+    d ^= b;
+    b ^= c;
+    a ^= d;
+    c ^= t;
+    d = rotateLeft(d, 11);
+
+    return result / 4294967296;
+  };
+};
+
+// Seeded 32-bit unsigned integer, for hashing positions against
+export const createSeed32 = (seed: string): number => {
+  return Math.floor(createRandom(seed)() * 4294967296) >>> 0;
+};
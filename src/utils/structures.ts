@@ -0,0 +1,280 @@
+import { BlockType } from './types';
+import { BLOCK_PROPERTIES } from './blocks';
+import { BIOMES, BiomeId } from './biomes';
+import { ChunkColumnFeatures, getFeatureBlockKey, hashColumn } from './features';
+import type { TerrainColumn } from './noise';
+
+// Structures are placed at most one per square cell, kept apart by the spacing
+const STRUCTURE_CELL_SIZE = 48;
+const STRUCTURE_SPACING = 8;
+const STRUCTURE_CHANCE = 0.3;
+
+// Largest height difference across a footprint that a structure is still built on
+const MAX_STRUCTURE_SLOPE = 2;
+
+// Largest footprint side that still fits inside a cell with spacing around it
+const MAX_STRUCTURE_SIZE = STRUCTURE_CELL_SIZE - STRUCTURE_SPACING;
+
+// Structure cells kept so neighbouring chunks don't place them again
+const MAX_CACHED_STRUCTURE_CELLS = 256;
+
+// Layer character that leaves the terrain as it is
+const KEEP_CHARACTER = ' ';
+
+// Template as written in a data file under src/data/structures
+export interface StructureTemplateFile {
+  name: string;
+  // Biomes the structure can appear in
+  biomes: BiomeId[];
+  // Relative chance of picking this template over others allowed in the same biome
+  weight: number;
+  // Block filling the ground under the bottom layer where the terrain falls away, null for none
+  foundation: BlockType | null;
+  // Layers sunk below the surface, for wells and cellars
+  sink?: number;
+  // Block for each character used in the layers, null carves out air. Spaces keep the terrain.
+  palette: Record<string, BlockType | null>;
+  // Horizontal slices from the bottom up, each a list of rows along z with one character per x.
+  // The bottom layer replaces the surface block, unless the template is sunk.
+  layers: string[][];
+}
+
+export interface StructureTemplate extends StructureTemplateFile {
+  id: string;
+  width: number;
+  depth: number;
+  height: number;
+}
+
+// A template placed in the world, rotated in quarter turns and optionally mirrored
+interface PlacedStructure {
+  template: StructureTemplate;
+  // Lowest corner of the footprint and the height of the bottom layer
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  depth: number;
+  rotation: number;
+  mirrored: boolean;
+}
+
+type StructureBlock = [x: number, y: number, z: number, type: BlockType | null];
+
+interface StructureCell {
+  structure: PlacedStructure;
+  blocks: StructureBlock[];
+}
+
+const templateFiles = import.meta.glob<StructureTemplateFile>('../data/structures/*.json', { eager: true, import: 'default' });
+
+// Check a template file and work out its size, null if it can't be used
+const parseTemplate = (path: string, file: StructureTemplateFile): StructureTemplate | null => {
+  const id = path.split('/').pop()!.replace(/\.json$/, '');
+  const height = file.layers.length;
+  const depth = Math.max(0, ...file.layers.map(layer => layer.length));
+  const width = Math.max(0, ...file.layers.flatMap(layer => layer.map(row => row.length)));
+
+  if (height === 0 || width === 0 || depth === 0) {
+    console.error(`[STRUCTURES] Template ${id} has no blocks`);
+    return null;
+  }
+
+  if (width > MAX_STRUCTURE_SIZE || depth > MAX_STRUCTURE_SIZE) {
+    console.error(`[STRUCTURES] Template ${id} is ${width}x${depth}, larger than ${MAX_STRUCTURE_SIZE}x${MAX_STRUCTURE_SIZE}`);
+    return null;
+  }
+
+  const unknownBiome = file.biomes.find(biome => !(biome in BIOMES));
+  if (unknownBiome) {
+    console.error(`[STRUCTURES] Template ${id} uses unknown biome ${unknownBiome}`);
+    return null;
+  }
+
+  const blockTypes = [...Object.values(file.palette), file.foundation].filter((type): type is BlockType => type !== null);
+  const unknownBlock = blockTypes.find(type => !(type in BLOCK_PROPERTIES));
+  if (unknownBlock) {
+    console.error(`[STRUCTURES] Template ${id} uses unknown block ${unknownBlock}`);
+    return null;
+  }
+
+  const unknownCharacter = file.layers.flat().join('').split('').find(char => char !== KEEP_CHARACTER && !(char in file.palette));
+  if (unknownCharacter) {
+    console.error(`[STRUCTURES] Template ${id} uses character '${unknownCharacter}' missing from its palette`);
+    return null;
+  }
+
+  return { ...file, id, width, depth, height };
+};
+
+/**
+ * Templates from the data files, sorted by id so every thread sees the same order.
+ * New structures only need a new file in src/data/structures.
+ */
+export const STRUCTURE_TEMPLATES: StructureTemplate[] = Object.entries(templateFiles)
+  .map(([path, file]) => parseTemplate(path, file))
+  .filter((template): template is StructureTemplate => template !== null)
+  .sort((a, b) => a.id.localeCompare(b.id));
+
+// World position of a template block after mirroring and rotating the footprint
+const transformPosition = (structure: PlacedStructure, templateX: number, templateZ: number): [number, number] => {
+  const { template, rotation } = structure;
+  const x = structure.mirrored ? template.width - 1 - templateX : templateX;
+  const z = templateZ;
+
+  if (rotation === 1) return [structure.x + template.depth - 1 - z, structure.z + x];
+  if (rotation === 2) return [structure.x + template.width - 1 - x, structure.z + template.depth - 1 - z];
+  if (rotation === 3) return [structure.x + z, structure.z + template.width - 1 - x];
+  return [structure.x + x, structure.z + z];
+};
+
+// Pick a template allowed in a biome, weighted by the template weights
+const pickTemplate = (templates: StructureTemplate[], biome: BiomeId, roll: number): StructureTemplate | null => {
+  const candidates = templates.filter(template => template.biomes.includes(biome));
+  const totalWeight = candidates.reduce((sum, template) => sum + template.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  let remaining = roll * totalWeight;
+  for (const template of candidates) {
+    remaining -= template.weight;
+    if (remaining < 0) return template;
+  }
+  return candidates[candidates.length - 1];
+};
+
+/**
+ * Places structures from templates on suitable terrain. Each cell of the world holds at
+ * most one structure, kept away from the cell edges so structures never overlap, and
+ * placement only depends on the seed and terrain so any chunk gets the same answer.
+ */
+export class StructureGenerator {
+  private seed: number;
+  private templates: StructureTemplate[];
+  private cells: Map<string, StructureCell | null> = new Map();
+
+  constructor(seed: number, templates: StructureTemplate[]) {
+    this.seed = seed;
+    this.templates = templates;
+  }
+
+  // Whether a column lies within a structure footprint, grown by a margin
+  public isNearStructure(x: number, z: number, margin: number, getColumn: (x: number, z: number) => TerrainColumn): boolean {
+    const cell = this.getCell(Math.floor(x / STRUCTURE_CELL_SIZE), Math.floor(z / STRUCTURE_CELL_SIZE), getColumn);
+    if (!cell) return false;
+
+    const { structure } = cell;
+    return x >= structure.x - margin && x < structure.x + structure.width + margin &&
+      z >= structure.z - margin && z < structure.z + structure.depth + margin;
+  }
+
+  // Add the blocks of every structure reaching into a chunk column, over its other features
+  public placeInChunkColumn(
+    features: ChunkColumnFeatures,
+    chunkX: number,
+    chunkZ: number,
+    size: number,
+    getColumn: (x: number, z: number) => TerrainColumn
+  ): void {
+    if (this.templates.length === 0) return;
+
+    const startX = chunkX * size;
+    const startZ = chunkZ * size;
+    const minCellX = Math.floor(startX / STRUCTURE_CELL_SIZE);
+    const maxCellX = Math.floor((startX + size - 1) / STRUCTURE_CELL_SIZE);
+    const minCellZ = Math.floor(startZ / STRUCTURE_CELL_SIZE);
+    const maxCellZ = Math.floor((startZ + size - 1) / STRUCTURE_CELL_SIZE);
+
+    for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+      for (let cellZ = minCellZ; cellZ <= maxCellZ; cellZ++) {
+        const cell = this.getCell(cellX, cellZ, getColumn);
+        if (!cell) continue;
+
+        for (const [x, y, z, type] of cell.blocks) {
+          const localX = x - startX;
+          const localZ = z - startZ;
+          if (localX < 0 || localX >= size || localZ < 0 || localZ >= size) continue;
+
+          features.blocks.set(getFeatureBlockKey(localX, y, localZ, size), type);
+          const topIndex = localZ * size + localX;
+          features.tops[topIndex] = Math.max(features.tops[topIndex], y);
+        }
+      }
+    }
+  }
+
+  private getCell(cellX: number, cellZ: number, getColumn: (x: number, z: number) => TerrainColumn): StructureCell | null {
+    const key = `${cellX},${cellZ}`;
+    if (this.cells.has(key)) return this.cells.get(key)!;
+
+    const structure = this.placeStructure(cellX, cellZ, getColumn);
+    const cell = structure ? { structure, blocks: this.buildStructure(structure, getColumn) } : null;
+
+    if (this.cells.size >= MAX_CACHED_STRUCTURE_CELLS) {
+      this.cells.delete(this.cells.keys().next().value!);
+    }
+    this.cells.set(key, cell);
+    return cell;
+  }
+
+  // Choose the structure of a cell, if any, and check the ground can take it
+  private placeStructure(cellX: number, cellZ: number, getColumn: (x: number, z: number) => TerrainColumn): PlacedStructure | null {
+    if (this.templates.length === 0 || hashColumn(this.seed, cellX, cellZ, 20) >= STRUCTURE_CHANCE) return null;
+
+    const cellStartX = cellX * STRUCTURE_CELL_SIZE;
+    const cellStartZ = cellZ * STRUCTURE_CELL_SIZE;
+    const center = getColumn(cellStartX + STRUCTURE_CELL_SIZE / 2, cellStartZ + STRUCTURE_CELL_SIZE / 2);
+    const template = pickTemplate(this.templates, center.biome.id, hashColumn(this.seed, cellX, cellZ, 21));
+    if (!template) return null;
+
+    const rotation = Math.floor(hashColumn(this.seed, cellX, cellZ, 22) * 4);
+    const mirrored = hashColumn(this.seed, cellX, cellZ, 23) < 0.5;
+    const width = rotation % 2 === 0 ? template.width : template.depth;
+    const depth = rotation % 2 === 0 ? template.depth : template.width;
+
+    // Keep half the spacing clear along every cell edge
+    const margin = STRUCTURE_SPACING / 2;
+    const x = cellStartX + margin + Math.floor(hashColumn(this.seed, cellX, cellZ, 24) * (STRUCTURE_CELL_SIZE - STRUCTURE_SPACING - width + 1));
+    const z = cellStartZ + margin + Math.floor(hashColumn(this.seed, cellX, cellZ, 25) * (STRUCTURE_CELL_SIZE - STRUCTURE_SPACING - depth + 1));
+
+    // Only build on dry ground that is nearly flat under the corners and middle
+    const samples = [
+      getColumn(x, z),
+      getColumn(x + width - 1, z),
+      getColumn(x, z + depth - 1),
+      getColumn(x + width - 1, z + depth - 1),
+      getColumn(x + Math.floor(width / 2), z + Math.floor(depth / 2))
+    ];
+    if (samples.some(column => column.height <= column.waterLevel)) return null;
+
+    const heights = samples.map(column => column.height);
+    if (Math.max(...heights) - Math.min(...heights) > MAX_STRUCTURE_SLOPE) return null;
+
+    const y = Math.round(heights.reduce((sum, height) => sum + height, 0) / heights.length) - (template.sink ?? 0);
+    return { template, x, y, z, width, depth, rotation, mirrored };
+  }
+
+  // Blocks of a placed structure, with a foundation down to the ground under its bottom layer
+  private buildStructure(structure: PlacedStructure, getColumn: (x: number, z: number) => TerrainColumn): StructureBlock[] {
+    const { template } = structure;
+    const blocks: StructureBlock[] = [];
+
+    template.layers.forEach((layer, layerIndex) => {
+      layer.forEach((row, templateZ) => {
+        for (let templateX = 0; templateX < row.length; templateX++) {
+          const char = row[templateX];
+          if (char === KEEP_CHARACTER) continue;
+
+          const [x, z] = transformPosition(structure, templateX, templateZ);
+          blocks.push([x, structure.y + layerIndex, z, template.palette[char]]);
+
+          if (layerIndex === 0 && template.foundation) {
+            const ground = getColumn(x, z).height;
+            for (let y = ground + 1; y < structure.y; y++) blocks.push([x, y, z, template.foundation]);
+          }
+        }
+      });
+    });
+
+    return blocks;
+  }
+}
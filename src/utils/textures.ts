@@ -1,23 +1,27 @@
 import * as THREE from 'three';
 import { BlockType } from './types';
 
-// Texture mappings
+// Debug flags
+const DEBUG_TEXTURES = false;
+
+// Texture mappings. A single texture is used on every face, six textures follow the
+// face order right, left, top, bottom, front, back (same as BoxGeometry)
 const TEXTURES: Record<BlockType, string[]> = {
   dirt: ['/resources/blocks/dirt.png'],
   grass: [
-    '/resources/blocks/grass_top.png',
-    '/resources/blocks/grass_top.png', 
-    '/resources/blocks/grass_top.png',
     '/resources/blocks/grass_side.png',
     '/resources/blocks/grass_side.png',
+    '/resources/blocks/grass_top.png',
     '/resources/blocks/dirt.png',
+    '/resources/blocks/grass_side.png',
+    '/resources/blocks/grass_side.png',
   ],
   stone: ['/resources/blocks/stone.png'],
   wood: [
-    '/resources/blocks/wood_top.png',
-    '/resources/blocks/wood_top.png',
     '/resources/blocks/wood_side.png',
     '/resources/blocks/wood_side.png',
+    '/resources/blocks/wood_top.png',
+    '/resources/blocks/wood_top.png',
     '/resources/blocks/wood_side.png',
     '/resources/blocks/wood_side.png',
   ],
@@ -26,8 +30,49 @@ const TEXTURES: Record<BlockType, string[]> = {
   sand: ['/resources/blocks/sand.png'],
   glass: ['/resources/blocks/glass.png'],
   water: ['/resources/blocks/water.png'],
+  torch: ['/resources/blocks/torch.png'],
+  lamp: ['/resources/blocks/lamp.png'],
+  snow: ['/resources/blocks/snow.png'],
+  tall_grass: ['/resources/blocks/tall_grass.png'],
+  lava: ['/resources/blocks/lava.png'],
+  coal_ore: ['/resources/blocks/coal_ore.png'],
+  iron_ore: ['/resources/blocks/iron_ore.png'],
+  gold_ore: ['/resources/blocks/gold_ore.png'],
+  diamond_ore: ['/resources/blocks/diamond_ore.png'],
+  gravel: ['/resources/blocks/gravel.png'],
+  clay: ['/resources/blocks/clay.png'],
+  bedrock: ['/resources/blocks/bedrock.png'],
+  crafting_table: [
+    '/resources/blocks/crafting_table_side.png',
+    '/resources/blocks/crafting_table_side.png',
+    '/resources/blocks/crafting_table_top.png',
+    '/resources/blocks/crafting_table_top.png',
+    '/resources/blocks/crafting_table_side.png',
+    '/resources/blocks/crafting_table_side.png',
+  ],
 };
 
+// Texture atlas layout: every distinct texture gets one tile, in definition order
+const ATLAS_TILE_SIZE = 16;
+const ATLAS_TILES: string[] = Array.from(new Set(Object.values(TEXTURES).flat()));
+const ATLAS_COLUMNS = Math.ceil(Math.sqrt(ATLAS_TILES.length));
+const ATLAS_ROWS = Math.ceil(ATLAS_TILES.length / ATLAS_COLUMNS);
+
+// Atlas tile index for each face of each block type
+const BLOCK_FACE_TILES = Object.fromEntries(
+  Object.entries(TEXTURES).map(([type, urls]) => [
+    type,
+    Array.from({ length: 6 }, (_, face) => ATLAS_TILES.indexOf(urls.length === 1 ? urls[0] : urls[face]))
+  ])
+) as Record<BlockType, number[]>;
+
+// Get the atlas tile used on one face of a block type
+export const getBlockFaceTile = (type: BlockType, face: number): number => {
+  return BLOCK_FACE_TILES[type][face];
+};
+
+export type ChunkRenderPass = 'opaque' | 'transparent';
+
 // Create a shared texture loader
 const textureLoader = new THREE.TextureLoader();
 
@@ -36,8 +81,16 @@ const textureCache: Map<string, THREE.Texture> = new Map();
 const materialCache: Map<string, THREE.MeshStandardMaterial[]> = new Map();
 const geometryCache: Map<string, THREE.BufferGeometry> = new Map();
 
-// Cache for textures used in instanced rendering
-const instancedTextureCache: Map<BlockType, THREE.Texture> = new Map();
+// Atlas texture shared by all chunk meshes, its image is filled in once textures are loaded
+const atlasTexture = new THREE.Texture();
+atlasTexture.flipY = false;
+atlasTexture.magFilter = THREE.NearestFilter;
+atlasTexture.minFilter = THREE.NearestFilter;
+atlasTexture.generateMipmaps = false;
+atlasTexture.colorSpace = THREE.SRGBColorSpace;
+
+// Materials shared by all chunk meshes, one per render pass
+const chunkMaterialCache: Map<ChunkRenderPass, THREE.MeshStandardMaterial> = new Map();
 
 // Track loading status
 let isTextureLoadingComplete = false;
@@ -54,25 +107,82 @@ const createFallbackMaterial = () => {
   return Array(6).fill(material);
 };
 
-// Get texture for instanced rendering (simplified, using just one texture per block type)
-export const getTexture = (type: BlockType): THREE.Texture => {
-  if (instancedTextureCache.has(type)) {
-    return instancedTextureCache.get(type)!;
+// Draw every loaded texture into its atlas tile
+const buildAtlas = (): void => {
+  const canvas = document.createElement('canvas');
+  canvas.width = ATLAS_COLUMNS * ATLAS_TILE_SIZE;
+  canvas.height = ATLAS_ROWS * ATLAS_TILE_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    console.error('[TEXTURES] Could not create atlas canvas context');
+    return;
   }
   
-  // For instanced rendering, just use the first texture for the block type
-  const textureUrl = TEXTURES[type][0];
+  context.imageSmoothingEnabled = false;
+  ATLAS_TILES.forEach((url, index) => {
+    const x = (index % ATLAS_COLUMNS) * ATLAS_TILE_SIZE;
+    const y = Math.floor(index / ATLAS_COLUMNS) * ATLAS_TILE_SIZE;
+    const image = textureCache.get(url)?.image as CanvasImageSource | undefined;
+    
+    if (image) {
+      context.drawImage(image, x, y, ATLAS_TILE_SIZE, ATLAS_TILE_SIZE);
+    } else {
+      context.fillStyle = '#FF00FF'; // Magenta for missing textures
+      context.fillRect(x, y, ATLAS_TILE_SIZE, ATLAS_TILE_SIZE);
+    }
+  });
   
-  if (textureCache.has(textureUrl)) {
-    const texture = textureCache.get(textureUrl)!;
-    instancedTextureCache.set(type, texture);
-    return texture;
+  atlasTexture.image = canvas;
+  atlasTexture.needsUpdate = true;
+  
+  if (DEBUG_TEXTURES) {
+    console.log(`[TEXTURES] Built ${ATLAS_COLUMNS}x${ATLAS_ROWS} texture atlas with ${ATLAS_TILES.length} tiles`);
   }
+};
+
+// Chunk meshes carry UVs in block units plus the atlas tile of each face.
+// The shader wraps the UV inside the tile so merged faces repeat the texture per block.
+const applyAtlasShader = (shader: THREE.WebGLProgramParametersWithUniforms): void => {
+  const tileSize = `vec2(${(1 / ATLAS_COLUMNS).toFixed(6)}, ${(1 / ATLAS_ROWS).toFixed(6)})`;
+  const halfTexel = (0.5 / ATLAS_TILE_SIZE).toFixed(6);
+  
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', `#include <common>
+attribute float tile;
+varying vec2 vTileOrigin;`)
+    .replace('#include <uv_vertex>', `#include <uv_vertex>
+vTileOrigin = vec2(mod(tile, ${ATLAS_COLUMNS.toFixed(1)}), floor(tile / ${ATLAS_COLUMNS.toFixed(1)})) * ${tileSize};`);
   
-  // Create a new texture if not in cache
-  const texture = loadTexture(textureUrl);
-  instancedTextureCache.set(type, texture);
-  return texture;
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', `#include <common>
+varying vec2 vTileOrigin;`)
+    .replace('#include <map_fragment>', `#ifdef USE_MAP
+  vec2 tileUv = clamp(fract(vMapUv), ${halfTexel}, 1.0 - ${halfTexel});
+  tileUv.y = 1.0 - tileUv.y;
+  diffuseColor *= texture2D(map, vTileOrigin + tileUv * ${tileSize});
+#endif`);
+};
+
+// Get the shared material for a chunk render pass, all blocks of a pass use the atlas
+export const getChunkMaterial = (pass: ChunkRenderPass): THREE.MeshStandardMaterial => {
+  if (chunkMaterialCache.has(pass)) {
+    return chunkMaterialCache.get(pass)!;
+  }
+  
+  const material = new THREE.MeshStandardMaterial({
+    map: atlasTexture,
+    transparent: pass === 'transparent',
+    opacity: pass === 'transparent' ? 0.7 : 1.0,
+    // Cutout shapes like torches are drawn in the opaque pass with their empty texels discarded
+    alphaTest: pass === 'opaque' ? 0.5 : 0,
+    // Baked light levels are stored as vertex colors
+    vertexColors: true,
+  });
+  material.onBeforeCompile = applyAtlasShader;
+  material.customProgramCacheKey = () => `chunk-atlas-${pass}`;
+  
+  chunkMaterialCache.set(pass, material);
+  return material;
 };
 
 // Get or create a cached block geometry
@@ -144,6 +254,11 @@ export const loadTexture = (url: string): THREE.Texture => {
   return placeholder;
 };
 
+// Crack overlay drawn over a block being mined, stages count up from 0
+export const getCrackTexture = (stage: number): THREE.Texture => {
+  return loadTexture(`/resources/blocks/destroy_stage_${stage}.png`);
+};
+
 // Get materials for a block type
 export const getBlockMaterials = (type: BlockType): THREE.MeshStandardMaterial[] => {
   const materialCacheKey = `${type}`;
@@ -215,6 +330,12 @@ export const disposeTextures = (): void => {
   textureCache.clear();
   materialCache.clear();
   
+  // Chunk materials and the atlas they sample, disposing a material also releases its
+  // program compiled from the atlas shader. Both are rebuilt the next time they're used.
+  chunkMaterialCache.forEach(material => material.dispose());
+  chunkMaterialCache.clear();
+  atlasTexture.dispose();
+  
   // Reset loading state
   isTextureLoadingComplete = false;
   texturesLoaded = 0;
@@ -244,6 +365,7 @@ export const preloadTextures = (): Promise<void> => {
       if (texturesLoaded >= totalTexturesToLoad) {
         isTextureLoadingComplete = true;
         console.log('Texture preloading complete');
+        buildAtlas();
         resolve();
       } else {
         console.log(`Texture loading progress: ${texturesLoaded}/${totalTexturesToLoad}`);
@@ -1,3 +1,9 @@
+import { ChunkStorage } from './chunkStorage';
+import type { WorldOptions, WorldType } from './worldTypes';
+import type { WorldLimits } from './worldLimits';
+import type { InventorySlot } from './inventory';
+import type { GameMode } from './gameModes';
+
 export type BlockType = 
   | 'dirt'
   | 'grass'
@@ -7,7 +13,20 @@ export type BlockType =
   | 'brick'
   | 'sand'
   | 'glass'
-  | 'water';
+  | 'water'
+  | 'torch'
+  | 'lamp'
+  | 'snow'
+  | 'tall_grass'
+  | 'lava'
+  | 'coal_ore'
+  | 'iron_ore'
+  | 'gold_ore'
+  | 'diamond_ore'
+  | 'gravel'
+  | 'clay'
+  | 'bedrock'
+  | 'crafting_table';
 
 export interface BlockPosition {
   x: number;
@@ -32,18 +51,35 @@ export interface ChunkData {
   x?: number;
   y?: number;
   z?: number;
-  blocks: Block[];
+  // Chunk-local block storage
+  storage: ChunkStorage;
 }
 
 export interface WorldData {
   id: number;
   seed: string;
+  world_type: WorldType;
+  world_options: WorldOptions;
+  // Revision of the terrain generator the world was created with
+  generator_version: number;
+  // Height range and border, filled in with the world type's defaults for worlds saved without them
+  world_limits: WorldLimits;
   changes: BlockChange[];
+  // Saved state of the player, null until it was first saved
+  player: PlayerData | null;
   last_updated: string;
 }
 
+export interface PlayerData {
+  inventory: InventorySlot[];
+  selected_slot: number;
+  game_mode: GameMode;
+  health: number;
+}
+
 export interface PlayerState {
   position: [number, number, number];
   rotation: [number, number, number];
-  selectedBlock: BlockType;
+  // Hotbar slot in hand
+  selectedSlot: number;
 } 
\ No newline at end of file
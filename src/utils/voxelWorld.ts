@@ -0,0 +1,188 @@
+import { BlockChange, BlockPosition, BlockType, ChunkData } from './types';
+import { CHUNK_SIZE, getChunkKey, getChunkCoords } from './chunks';
+import { isSolid, isTransparent } from './blocks';
+import { WorldGenerator } from './worldTypes';
+import { Biome } from './biomes';
+import { WorldLimits, isInsideBorder, isInsideLimits } from './worldLimits';
+
+// How far down a column is searched for its highest matching block
+const MAX_COLUMN_SCAN = 256;
+
+const makeBlockKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+const makeColumnKey = (x: number, z: number) => `${x},${z}`;
+
+/**
+ * Block queries for the whole world, shared by every subsystem that needs to know what
+ * occupies a position. Reads go through loaded chunks first, then the latest recorded
+ * change, then the terrain generator for areas that haven't been loaded yet.
+ * Positions are world block coordinates and may be fractional, they are floored.
+ */
+export class VoxelWorld {
+  private chunks: Map<string, ChunkData> = new Map();
+  private latestChanges: Map<string, BlockChange> = new Map();
+  // Highest placed block of each column, placed blocks can rise above the terrain
+  private placedColumnTops: Map<string, number> = new Map();
+  private generator: WorldGenerator | null = null;
+  private limits: WorldLimits | null = null;
+  private changeListener: ((change: BlockChange) => void) | null = null;
+
+  public setGenerator(generator: WorldGenerator | null): void {
+    this.generator = generator;
+  }
+
+  public setLimits(limits: WorldLimits | null): void {
+    this.limits = limits;
+  }
+
+  // Whether a block can be placed or broken here: inside the limits, and not bedrock
+  public canChangeBlock(x: number, y: number, z: number): boolean {
+    x = Math.floor(x);
+    y = Math.floor(y);
+    z = Math.floor(z);
+
+    if (this.limits && !isInsideLimits(this.limits, x, y, z)) return false;
+    return this.getBlock(x, y, z) !== 'bedrock';
+  }
+
+  // Receives the changes made through setBlock, the owner applies them to the chunks
+  public setChangeListener(listener: ((change: BlockChange) => void) | null): void {
+    this.changeListener = listener;
+  }
+
+  public getChunk(chunkKey: string): ChunkData | undefined {
+    return this.chunks.get(chunkKey);
+  }
+
+  public hasChunk(chunkKey: string): boolean {
+    return this.chunks.has(chunkKey);
+  }
+
+  public setChunk(chunkKey: string, chunk: ChunkData): void {
+    this.chunks.set(chunkKey, chunk);
+  }
+
+  // Unload a chunk, its blocks are answered by the recorded changes and the generator again
+  public removeChunk(chunkKey: string): void {
+    this.chunks.delete(chunkKey);
+  }
+
+  // Remember a change so unloaded areas answer with it instead of the generated block
+  public recordChange(change: BlockChange): void {
+    this.latestChanges.set(makeBlockKey(change.x, change.y, change.z), change);
+
+    if (change.action === 'place') {
+      const columnKey = makeColumnKey(change.x, change.z);
+      this.placedColumnTops.set(columnKey, Math.max(this.placedColumnTops.get(columnKey) ?? change.y, change.y));
+    }
+  }
+
+  public getBlock(x: number, y: number, z: number): BlockType | null {
+    x = Math.floor(x);
+    y = Math.floor(y);
+    z = Math.floor(z);
+
+    const chunkCoords = getChunkCoords(x, y, z);
+    const chunk = this.chunks.get(getChunkKey(chunkCoords.x, chunkCoords.y, chunkCoords.z));
+
+    if (chunk) {
+      return chunk.storage.get(
+        x - chunkCoords.x * CHUNK_SIZE,
+        y - chunkCoords.y * CHUNK_SIZE,
+        z - chunkCoords.z * CHUNK_SIZE
+      );
+    }
+
+    // Chunk not loaded yet - use the generator with any recorded changes on top
+    const change = this.latestChanges.get(makeBlockKey(x, y, z));
+    if (change) {
+      return change.action === 'place' ? change.type : null;
+    }
+    return this.generator ? this.generator.getBlockType(x, y, z) : null;
+  }
+
+  /**
+   * Place a block, or remove one when `type` is null. The change goes to the change
+   * listener and is visible to queries once the world has applied it. Returns the
+   * change, or null when there's nothing to change, the position can't be changed or
+   * there's no listener to apply it.
+   */
+  public setBlock(x: number, y: number, z: number, type: BlockType | null): BlockChange | null {
+    x = Math.floor(x);
+    y = Math.floor(y);
+    z = Math.floor(z);
+
+    const current = this.getBlock(x, y, z);
+    if (current === type || !this.changeListener || !this.canChangeBlock(x, y, z)) return null;
+
+    const change: BlockChange = type === null
+      ? { x, y, z, type: current!, action: 'remove' }
+      : { x, y, z, type, action: 'place' };
+
+    this.changeListener(change);
+    return change;
+  }
+
+  // The world border is a solid wall from the bottom of the world to the sky
+  public isSolid(x: number, y: number, z: number): boolean {
+    if (this.limits && !isInsideBorder(this.limits, Math.floor(x), Math.floor(z))) return true;
+    return isSolid(this.getBlock(x, y, z));
+  }
+
+  public isTransparent(x: number, y: number, z: number): boolean {
+    return isTransparent(this.getBlock(x, y, z));
+  }
+
+  /**
+   * Highest y in a column holding a block that passes `test` (solid blocks by default),
+   * searching down from `maxY` when given. Returns null if none is found within the scan depth.
+   */
+  public getHighestBlock(
+    x: number,
+    z: number,
+    maxY: number = Infinity,
+    test: (type: BlockType | null) => boolean = isSolid
+  ): number | null {
+    x = Math.floor(x);
+    z = Math.floor(z);
+
+    const top = Math.min(this.getColumnTop(x, z), Math.floor(maxY));
+    for (let y = top; y > top - MAX_COLUMN_SCAN; y--) {
+      if (test(this.getBlock(x, y, z))) return y;
+    }
+    return null;
+  }
+
+  // Lowest y of a column that sunlight reaches, from the highest block that isn't transparent
+  public getSunlitHeight(x: number, z: number): number {
+    const top = this.getColumnTop(Math.floor(x), Math.floor(z));
+    const highest = this.getHighestBlock(x, z, top, type => !isTransparent(type));
+    return highest === null ? top - MAX_COLUMN_SCAN : highest + 1;
+  }
+
+  // Biome of a column, null until the generator is set
+  public getBiome(x: number, z: number): Biome | null {
+    return this.generator ? this.generator.getBiome(Math.floor(x), Math.floor(z)) : null;
+  }
+
+  // Visit every non-air block inside a box, bounds are inclusive
+  public forEachBlockInRegion(
+    min: BlockPosition,
+    max: BlockPosition,
+    callback: (x: number, y: number, z: number, type: BlockType) => void
+  ): void {
+    for (let x = Math.floor(min.x); x <= Math.floor(max.x); x++) {
+      for (let y = Math.floor(min.y); y <= Math.floor(max.y); y++) {
+        for (let z = Math.floor(min.z); z <= Math.floor(max.z); z++) {
+          const type = this.getBlock(x, y, z);
+          if (type !== null) callback(x, y, z, type);
+        }
+      }
+    }
+  }
+
+  // Highest position in a column that can hold a generated or placed block
+  private getColumnTop(x: number, z: number): number {
+    const terrainHeight = this.generator ? this.generator.getColumnTop(x, z) : 0;
+    return Math.max(terrainHeight, this.placedColumnTops.get(makeColumnKey(x, z)) ?? terrainHeight);
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  ChunkJob,
+  ChunkJobResult,
+  ChunkJobResultFor,
+  runChunkJob
+} from './chunkJobs';
+
+// Debug flags
+const DEBUG_WORKER_POOL = false;
+
+const MAX_WORKERS = 4;
+
+// A submitted job; the promise resolves to null if the job is cancelled first
+export interface ChunkTask<T> {
+  promise: Promise<T | null>;
+  cancel: () => void;
+}
+
+interface QueuedJob {
+  id: number;
+  key: string;
+  job: ChunkJob;
+  cancelled: boolean;
+  resolve: (result: ChunkJobResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerResponse {
+  id: number;
+  result?: ChunkJobResult;
+  error?: string;
+}
+
+/**
+ * Runs chunk generation and meshing jobs on a pool of web workers. Jobs wait in a queue
+ * until a worker is free, and can be cancelled by key while queued or running. When
+ * workers can't be created, jobs run on the main thread one per task instead.
+ */
+export class ChunkWorkerPool {
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private busyWorkers: Map<Worker, QueuedJob> = new Map();
+  private queue: QueuedJob[] = [];
+  private nextId = 1;
+  private useMainThread = false;
+  private isMainThreadRunScheduled = false;
+
+  constructor(size: number) {
+    if (typeof Worker === 'undefined') {
+      console.log('[WORKERS] Web workers not available, chunk jobs will run on the main thread');
+      this.useMainThread = true;
+      return;
+    }
+
+    try {
+      for (let i = 0; i < size; i++) {
+        const worker = new Worker(new URL('../workers/chunkWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleResponse(worker, event.data);
+        worker.onerror = (event: ErrorEvent) => this.handleWorkerFailure(event);
+        this.workers.push(worker);
+        this.idleWorkers.push(worker);
+      }
+
+      if (DEBUG_WORKER_POOL) {
+        console.log(`[WORKERS] Started ${size} chunk workers`);
+      }
+    } catch (error) {
+      console.error('[WORKERS] Failed to start chunk workers, falling back to the main thread:', error);
+      this.switchToMainThread();
+    }
+  }
+
+  // Queue a job, jobs with the same key can later be cancelled together
+  public submit<J extends ChunkJob>(key: string, job: J): ChunkTask<ChunkJobResultFor<J>> {
+    let queuedJob!: QueuedJob;
+    const promise = new Promise<ChunkJobResult | null>((resolve, reject) => {
+      queuedJob = { id: this.nextId++, key, job, cancelled: false, resolve, reject };
+    });
+
+    this.queue.push(queuedJob);
+    this.dispatch();
+
+    return {
+      promise: promise as Promise<ChunkJobResultFor<J> | null>,
+      cancel: () => this.cancelJob(queuedJob)
+    };
+  }
+
+  // Cancel every queued or running job with the given key
+  public cancel(key: string): void {
+    this.queue.filter(queuedJob => queuedJob.key === key).forEach(queuedJob => this.cancelJob(queuedJob));
+    this.busyWorkers.forEach(queuedJob => {
+      if (queuedJob.key === key) this.cancelJob(queuedJob);
+    });
+  }
+
+  public getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  private cancelJob(queuedJob: QueuedJob): void {
+    if (queuedJob.cancelled) return;
+    queuedJob.cancelled = true;
+
+    // Queued jobs are dropped now, running ones finish but their result is ignored
+    const index = this.queue.indexOf(queuedJob);
+    if (index !== -1) this.queue.splice(index, 1);
+
+    queuedJob.resolve(null);
+  }
+
+  private dispatch(): void {
+    if (this.useMainThread) {
+      this.scheduleMainThreadRun();
+      return;
+    }
+
+    while (this.idleWorkers.length > 0 && this.queue.length > 0) {
+      const worker = this.idleWorkers.pop()!;
+      const queuedJob = this.queue.shift()!;
+
+      this.busyWorkers.set(worker, queuedJob);
+      worker.postMessage({ id: queuedJob.id, job: queuedJob.job });
+    }
+  }
+
+  private handleResponse(worker: Worker, response: WorkerResponse): void {
+    const queuedJob = this.busyWorkers.get(worker);
+    this.busyWorkers.delete(worker);
+    this.idleWorkers.push(worker);
+
+    if (queuedJob && queuedJob.id === response.id && !queuedJob.cancelled) {
+      if (response.error !== undefined) {
+        queuedJob.reject(new Error(response.error));
+      } else {
+        queuedJob.resolve(response.result ?? null);
+      }
+    }
+
+    this.dispatch();
+  }
+
+  // A worker script that fails to load means workers can't be used here at all
+  private handleWorkerFailure(event: ErrorEvent): void {
+    console.error('[WORKERS] Chunk worker failed, falling back to the main thread:', event.message);
+    event.preventDefault();
+    this.switchToMainThread();
+  }
+
+  private switchToMainThread(): void {
+    if (this.useMainThread) return;
+    this.useMainThread = true;
+
+    // Jobs that were running go back to the front of the queue
+    const interruptedJobs = Array.from(this.busyWorkers.values()).filter(queuedJob => !queuedJob.cancelled);
+    this.queue.unshift(...interruptedJobs);
+
+    this.workers.forEach(worker => worker.terminate());
+    this.workers = [];
+    this.idleWorkers = [];
+    this.busyWorkers.clear();
+
+    this.dispatch();
+  }
+
+  // Run queued jobs one at a time, yielding between them so frames keep rendering
+  private scheduleMainThreadRun(): void {
+    if (this.isMainThreadRunScheduled || this.queue.length === 0) return;
+    this.isMainThreadRunScheduled = true;
+
+    setTimeout(() => {
+      this.isMainThreadRunScheduled = false;
+      const queuedJob = this.queue.shift();
+
+      if (queuedJob) {
+        try {
+          queuedJob.resolve(runChunkJob(queuedJob.job));
+        } catch (error) {
+          queuedJob.reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+
+      this.scheduleMainThreadRun();
+    }, 0);
+  }
+}
+
+let chunkWorkerPool: ChunkWorkerPool | null = null;
+
+// Shared pool, created on first use
+export const getChunkWorkerPool = (): ChunkWorkerPool => {
+  if (!chunkWorkerPool) {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    chunkWorkerPool = new ChunkWorkerPool(Math.max(1, Math.min(MAX_WORKERS, cores - 1)));
+  }
+  return chunkWorkerPool;
+};
@@ -0,0 +1,146 @@
+import { BlockType, ChunkData } from './types';
+import { Biome } from './biomes';
+import { ChunkStorage } from './chunkStorage';
+import { hashColumn } from './features';
+import { createSeed32 } from './random';
+import type { WorldGenerator, WorldType } from './worldTypes';
+
+// Bedrock thins out over this many layers above the bottom of the world
+const BEDROCK_LAYERS = 4;
+
+/**
+ * Bounds of a world, stored with it. Nothing exists below `minY` or above `maxY`, and
+ * blocks can only be placed and broken inside them and inside the border.
+ */
+export interface WorldLimits {
+  // Lowest layer of the world
+  minY: number;
+  // Highest layer blocks can be placed in
+  maxY: number;
+  // Whether the bottom layers are indestructible bedrock, worlds without ground have none
+  bedrock: boolean;
+  // Half the width of the square border around the origin, null for an endless world
+  borderRadius: number | null;
+  // Generate every chunk inside the border in the background, into the browser's chunk database
+  pregenerate: boolean;
+}
+
+// Limits of new worlds, and of worlds created before limits were stored
+export const getDefaultWorldLimits = (worldType: WorldType): WorldLimits => ({
+  minY: worldType === 'superflat' ? -1 : -64,
+  maxY: 255,
+  bedrock: worldType !== 'island' && worldType !== 'void',
+  borderRadius: null,
+  pregenerate: false
+});
+
+// Whether a block column, or a point for fractional coordinates, is inside the border
+export const isInsideBorder = (limits: WorldLimits, x: number, z: number): boolean => {
+  const { borderRadius } = limits;
+  if (borderRadius === null) return true;
+  return x >= -borderRadius && x < borderRadius && z >= -borderRadius && z < borderRadius;
+};
+
+// Whether blocks can exist at a position
+export const isInsideLimits = (limits: WorldLimits, x: number, y: number, z: number): boolean => {
+  return y >= limits.minY && y <= limits.maxY && isInsideBorder(limits, x, z);
+};
+
+// Whether any layer of a chunk lies between the bottom and the top of the world
+export const isChunkInsideLimits = (limits: WorldLimits, chunkY: number, chunkSize: number): boolean => {
+  return (chunkY + 1) * chunkSize > limits.minY && chunkY * chunkSize <= limits.maxY;
+};
+
+// Chunk positions inside the border and the world's height, nearest to the origin first
+export const getChunksInsideBorder = (limits: WorldLimits, chunkSize: number): Array<[number, number, number]> => {
+  if (limits.borderRadius === null) return [];
+
+  const minChunk = Math.floor(-limits.borderRadius / chunkSize);
+  const maxChunk = Math.floor((limits.borderRadius - 1) / chunkSize);
+  const minChunkY = Math.floor(limits.minY / chunkSize);
+  const maxChunkY = Math.floor(limits.maxY / chunkSize);
+  const chunks: Array<[number, number, number]> = [];
+
+  for (let x = minChunk; x <= maxChunk; x++) {
+    for (let z = minChunk; z <= maxChunk; z++) {
+      for (let y = minChunkY; y <= maxChunkY; y++) {
+        chunks.push([x, y, z]);
+      }
+    }
+  }
+
+  return chunks.sort((a, b) => Math.hypot(a[0], a[2]) - Math.hypot(b[0], b[2]) || a[1] - b[1]);
+};
+
+/**
+ * A world type's generator cut to the world's limits: nothing below the bottom or above
+ * the top, with a bedrock floor that gets more ragged towards its top layer.
+ */
+export class LimitedWorldGenerator implements WorldGenerator {
+  private generator: WorldGenerator;
+  private limits: WorldLimits;
+  private bedrockSeed: number;
+
+  constructor(generator: WorldGenerator, limits: WorldLimits, seed: string) {
+    this.generator = generator;
+    this.limits = limits;
+    this.bedrockSeed = createSeed32(`${seed}:bedrock`);
+  }
+
+  // Whether a generated block turns to bedrock, the bottom layer always does
+  private isBedrock(x: number, y: number, z: number, type: BlockType | null): boolean {
+    if (!this.limits.bedrock) return false;
+
+    const layer = y - this.limits.minY;
+    if (layer === 0) return true;
+    if (layer >= BEDROCK_LAYERS || type === null) return false;
+    return hashColumn(this.bedrockSeed, x, z, layer) < 1 - layer / BEDROCK_LAYERS;
+  }
+
+  public getBlockType(x: number, y: number, z: number): BlockType | null {
+    if (y < this.limits.minY || y > this.limits.maxY) return null;
+
+    const type = this.generator.getBlockType(x, y, z);
+    return this.isBedrock(x, y, z, type) ? 'bedrock' : type;
+  }
+
+  public getColumnTop(x: number, z: number): number {
+    const top = Math.min(this.generator.getColumnTop(x, z), this.limits.maxY);
+    return this.limits.bedrock ? Math.max(top, this.limits.minY) : top;
+  }
+
+  public getHeight(x: number, z: number): number {
+    return this.generator.getHeight(x, z);
+  }
+
+  public getBiome(x: number, z: number): Biome {
+    return this.generator.getBiome(x, z);
+  }
+
+  public generateChunk(chunkX: number, chunkY: number, chunkZ: number, chunkSize: number): ChunkData {
+    if (!isChunkInsideLimits(this.limits, chunkY, chunkSize)) {
+      return { position: { x: chunkX, y: chunkY, z: chunkZ }, storage: new ChunkStorage() };
+    }
+
+    const chunk = this.generator.generateChunk(chunkX, chunkY, chunkZ, chunkSize);
+    const startY = chunkY * chunkSize;
+
+    for (let y = 0; y < chunkSize; y++) {
+      const worldY = startY + y;
+      const outside = worldY < this.limits.minY || worldY > this.limits.maxY;
+      if (!outside && worldY - this.limits.minY >= BEDROCK_LAYERS) continue;
+
+      for (let x = 0; x < chunkSize; x++) {
+        for (let z = 0; z < chunkSize; z++) {
+          if (outside) {
+            chunk.storage.set(x, y, z, null);
+          } else if (this.isBedrock(chunkX * chunkSize + x, worldY, chunkZ * chunkSize + z, chunk.storage.get(x, y, z))) {
+            chunk.storage.set(x, y, z, 'bedrock');
+          }
+        }
+      }
+    }
+
+    return chunk;
+  }
+}
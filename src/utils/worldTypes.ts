@@ -0,0 +1,85 @@
+import { BlockType, ChunkData } from './types';
+import { Biome } from './biomes';
+import { CURRENT_GENERATOR_VERSION, DEFAULT_GENERATOR_SETTINGS, createTerrainGenerator } from './noise';
+import { FlatWorldGenerator, FloatingIslandGenerator, VoidWorldGenerator } from './presetGenerators';
+import { LimitedWorldGenerator, WorldLimits, getDefaultWorldLimits } from './worldLimits';
+
+export type WorldType = 'default' | 'superflat' | 'amplified' | 'island' | 'void';
+
+// One layer of a superflat world, listed from the bottom up
+export interface FlatLayer {
+  type: BlockType;
+  thickness: number;
+}
+
+// Parameters of the world types, each type only reads its own fields
+export interface WorldOptions {
+  // Superflat: layers stacked from y = 0 upwards
+  layers?: FlatLayer[];
+  // Amplified: how much taller hills and mountains are than in the default world
+  heightScale?: number;
+  // Island: radius of the floating island in blocks
+  islandRadius?: number;
+}
+
+export interface WorldTypeInfo {
+  name: string;
+  description: string;
+}
+
+export const WORLD_TYPES: Record<WorldType, WorldTypeInfo> = {
+  default: { name: 'Default', description: 'Oceans, rivers, biomes, caves and structures' },
+  superflat: { name: 'Superflat', description: 'Flat layers of blocks, as many as you like' },
+  amplified: { name: 'Amplified', description: 'The default world with towering mountains' },
+  island: { name: 'Floating Island', description: 'A single island hanging in the sky' },
+  void: { name: 'Void', description: 'Nothing but a small platform to start from' },
+};
+
+export const DEFAULT_FLAT_LAYERS: FlatLayer[] = [
+  { type: 'stone', thickness: 3 },
+  { type: 'dirt', thickness: 2 },
+  { type: 'grass', thickness: 1 },
+];
+
+export const DEFAULT_HEIGHT_SCALE = 2.5;
+export const DEFAULT_ISLAND_RADIUS = 40;
+
+/**
+ * What every world type's generator provides, for chunk generation on the workers and for
+ * block queries on areas that haven't loaded yet.
+ */
+export interface WorldGenerator {
+  getBlockType(x: number, y: number, z: number): BlockType | null;
+  // Highest generated block of a column
+  getColumnTop(x: number, z: number): number;
+  getHeight(x: number, z: number): number;
+  getBiome(x: number, z: number): Biome;
+  generateChunk(chunkX: number, chunkY: number, chunkZ: number, chunkSize: number): ChunkData;
+}
+
+// Generator for a world, the same seed, type, options, version and limits always give the same world
+export const createWorldGenerator = (
+  seed: string,
+  type: WorldType,
+  options: WorldOptions = {},
+  version: number = CURRENT_GENERATOR_VERSION,
+  limits: WorldLimits = getDefaultWorldLimits(type)
+): WorldGenerator => {
+  return new LimitedWorldGenerator(createTypeGenerator(seed, type, options, version), limits, seed);
+};
+
+// Generator of a world type, unbounded
+const createTypeGenerator = (seed: string, type: WorldType, options: WorldOptions, version: number): WorldGenerator => {
+  switch (type) {
+    case 'superflat':
+      return new FlatWorldGenerator(options.layers ?? DEFAULT_FLAT_LAYERS);
+    case 'amplified':
+      return createTerrainGenerator(seed, { ...DEFAULT_GENERATOR_SETTINGS, version, heightScale: options.heightScale ?? DEFAULT_HEIGHT_SCALE });
+    case 'island':
+      return new FloatingIslandGenerator(seed, options.islandRadius ?? DEFAULT_ISLAND_RADIUS);
+    case 'void':
+      return new VoidWorldGenerator();
+    default:
+      return createTerrainGenerator(seed, { ...DEFAULT_GENERATOR_SETTINGS, version });
+  }
+};
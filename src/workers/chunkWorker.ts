@@ -0,0 +1,15 @@
+import { ChunkJob, runChunkJob, getResultTransferables } from '../utils/chunkJobs';
+
+// Runs chunk generation and meshing jobs posted by the chunk worker pool
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<{ id: number; job: ChunkJob }>) => {
+  const { id, job } = event.data;
+
+  try {
+    const result = runChunkJob(job);
+    ctx.postMessage({ id, result }, getResultTransferables(result));
+  } catch (error) {
+    ctx.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};